@@ -98,11 +98,11 @@ export const drawScene = (
   );
   modelViewMatrix = mat4.multiply(
     modelViewMatrix,
-    mat4.getRotateY(cubeRotation * 0.7),
+    mat4.getRotateY(-cubeRotation * 0.7),
   );
   modelViewMatrix = mat4.multiply(
     modelViewMatrix,
-    mat4.getRotateX(cubeRotation * 0.3),
+    mat4.getRotateX(-cubeRotation * 0.3),
   );
 
   // WebGL にどのように座標バッファーから座標を
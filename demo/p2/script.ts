@@ -1,4 +1,7 @@
 import * as mat4 from "@/mat4";
+import * as mat4Out from "@/mat4Out";
+import * as quat from "@/quat";
+import * as vec3 from "@/vec3";
 import * as mesh from "./mesh";
 
 import * as scene from "./scene";
@@ -75,12 +78,8 @@ const frame = (objectControl: RenderableObject[], scene: scene.Scene, frameCount
 
   const rad = ((frameCount % 360) * Math.PI) / 180;
 
-  objectControl[0].modelMatrix = [
-    mat4.getIdentity(),
-    mat4.getRotateY(-rad),
-  ].reduce((a, b) => {
-    return mat4.multiply(a, b);
-  });
+  const rotation = quat.fromAxisAngle(vec3.init([0, 1, 0]), rad);
+  objectControl[0].modelMatrix = quat.toMat4(rotation);
   renderer.rendering(scene);
 
   requestAnimationFrame(() => {
@@ -100,6 +99,9 @@ class Renderer {
   // ECMA 2023が必要
   private readonly meshes: WeakMap<symbol, GpuMesh> | Map<symbol, GpuMesh> = new Map();
 
+  // 描画のたびに行列を生成しないよう、使い回す
+  private readonly mvpMatrix: mat4.Mat4 = mat4.getIdentity();
+
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
 
@@ -180,7 +182,7 @@ void main(void){
     const mesh = RenderableObject.mesh;
     const mMatrix = RenderableObject.modelMatrix;
 
-    const mvpMatrix = mat4.multiply(vpMatrix, mMatrix);
+    const mvpMatrix = mat4Out.multiply(this.mvpMatrix, vpMatrix, mMatrix);
 
     const attributeNames = Array.from(mesh.geometry.attributes.keys());
 
@@ -33,3 +33,17 @@ export class SingularMatrixError extends MatrixError {
     this.name = "SingularMatrixError";
   }
 }
+
+export class NotPositiveDefiniteError extends MatrixError {
+  constructor(options: ErrorOptions) {
+    super("Matrix is not positive definite.", options);
+    this.name = "NotPositiveDefiniteError";
+  }
+}
+
+export class ConvergenceError extends MatrixError {
+  constructor(iterations: number, options: ErrorOptions) {
+    super(`Failed to converge after ${iterations} iterations.`, options);
+    this.name = "ConvergenceError";
+  }
+}
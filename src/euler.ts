@@ -0,0 +1,199 @@
+import { ValidationError } from "./errors";
+import type { Mat4 } from "./mat4";
+import * as quat from "./quat";
+import * as vec3 from "./vec3";
+
+/**
+ * 回転を適用する軸の順番\
+ * 3軸が全て異なるもの (Tait-Bryan 角) と、1軸目と3軸目が同じもの (古典的オイラー角) の計12種類
+ */
+export type EulerOrder =
+  | "XYZ"
+  | "XZY"
+  | "YXZ"
+  | "YZX"
+  | "ZXY"
+  | "ZYX"
+  | "XYX"
+  | "XZX"
+  | "YXY"
+  | "YZY"
+  | "ZXZ"
+  | "ZYZ";
+
+/**
+ * - `"intrinsic"` : 回転するたびに動く、物体に固定された軸で回転する
+ * - `"extrinsic"` : ワールドに固定された軸で回転する
+ *
+ * intrinsic の `"XYZ"` は extrinsic の `"ZYX"` を逆順の角度で適用したものと等しい
+ */
+export type EulerConvention = "intrinsic" | "extrinsic";
+
+/** `order` に並んだ軸に対応する回転角（ラジアン） */
+export type EulerAngles = [number, number, number];
+
+const EULER_ORDERS: ReadonlyArray<string> = [
+  "XYZ",
+  "XZY",
+  "YXZ",
+  "YZX",
+  "ZXY",
+  "ZYX",
+  "XYX",
+  "XZX",
+  "YXY",
+  "YZY",
+  "ZXZ",
+  "ZYZ",
+];
+
+/** これより2軸目の角が特異点に近い場合、ジンバルロックとして扱う */
+const GIMBAL_LOCK_EPSILON = 1e-6;
+
+/**
+ * @internal
+ */
+const assertEulerOrder = (order: string): void => {
+  if (!EULER_ORDERS.includes(order)) {
+    throw new ValidationError(`Invalid rotation order: ${order}`, {
+      cause: { reason: "invalidOrder", value: order },
+    });
+  }
+};
+
+/**
+ * @internal
+ */
+const axisIndex = (axis: string): number => {
+  return axis.charCodeAt(0) - "X".charCodeAt(0);
+};
+
+/**
+ * @internal
+ */
+const axisQuat = (index: number, rad: number): quat.Quat => {
+  const axis = [0, 0, 0];
+  axis[index] = 1;
+  return quat.fromAxisAngle(vec3.init(axis), rad);
+};
+
+/**
+ * オイラー角からクォータニオンを作成する
+ * @param angles `order` に並んだ軸に対応する回転角（ラジアン）
+ * @param order 回転を適用する軸の順番
+ * @param convention 回転軸が物体に固定されているか (intrinsic) 、ワールドに固定されているか (extrinsic)
+ * @throws ValidationError 不正な `order`
+ */
+export const toQuat = (
+  angles: Readonly<EulerAngles>,
+  order: EulerOrder = "XYZ",
+  convention: EulerConvention = "intrinsic",
+): quat.Quat => {
+  assertEulerOrder(order);
+  const [a, b, c] = [0, 1, 2].map(i =>
+    axisQuat(axisIndex(order[i]), angles[i]),
+  );
+  // intrinsic は右から、extrinsic は左から順に回転を重ねる
+  return convention === "intrinsic"
+    ? quat.multiply(quat.multiply(a, b), c)
+    : quat.multiply(quat.multiply(c, b), a);
+};
+
+/**
+ * クォータニオンからオイラー角を求める
+ * @param q 単位クォータニオン
+ * @param order 回転を適用する軸の順番
+ * @param convention 回転軸が物体に固定されているか (intrinsic) 、ワールドに固定されているか (extrinsic)
+ * @returns `order` に並んだ軸に対応する回転角（ラジアン）\
+ * 1, 3番目の角は `[-π, π]`、2番目の角は Tait-Bryan 角なら `[-π/2, π/2]`、古典的オイラー角なら `[0, π]` の範囲になる
+ * @throws ValidationError 不正な `order`
+ *
+ * @remarks
+ * ジンバルロック（2番目の角が特異点にある）状態では1番目と3番目の角が区別できないため、
+ * 3番目の角を0とし、残りの回転を全て1番目の角に割り当てる。これは intrinsic, extrinsic のどちらでも同じ
+ *
+ * @see https://doi.org/10.1371/journal.pone.0276302
+ */
+export const fromQuat = (
+  q: quat.Quat,
+  order: EulerOrder = "XYZ",
+  convention: EulerConvention = "intrinsic",
+): EulerAngles => {
+  assertEulerOrder(order);
+  const extrinsic = convention === "extrinsic";
+  // intrinsic は逆順の extrinsic として計算する
+  const seq = extrinsic ? order : order.split("").reverse().join("");
+  const i = axisIndex(seq[0]);
+  const j = axisIndex(seq[1]);
+  const isProper = seq[0] === seq[2];
+  const k = isProper ? 3 - i - j : axisIndex(seq[2]);
+  // 軸の並びが巡回置換であれば 1、そうでなければ -1
+  const sign = ((i - j) * (j - k) * (k - i)) / 2;
+
+  const v = q.value;
+  const [a, b, c, d] = isProper
+    ? [v[3], v[i], v[j], v[k] * sign]
+    : [v[3] - v[j], v[i] + v[k] * sign, v[j] + v[3], v[k] * sign - v[i]];
+
+  const angles: EulerAngles = [
+    0,
+    2 * Math.atan2(Math.hypot(c, d), Math.hypot(a, b)),
+    0,
+  ];
+  const halfSum = Math.atan2(b, a);
+  const halfDiff = Math.atan2(d, c);
+
+  if (Math.abs(angles[1]) <= GIMBAL_LOCK_EPSILON) {
+    angles[extrinsic ? 0 : 2] = 2 * halfSum;
+  } else if (Math.abs(angles[1] - Math.PI) <= GIMBAL_LOCK_EPSILON) {
+    angles[extrinsic ? 0 : 2] = extrinsic ? -2 * halfDiff : 2 * halfDiff;
+  } else {
+    angles[0] = halfSum - halfDiff;
+    angles[2] = halfSum + halfDiff;
+  }
+
+  if (!isProper) {
+    angles[2] *= sign;
+    angles[1] -= Math.PI / 2;
+  }
+  if (!extrinsic) {
+    [angles[0], angles[2]] = [angles[2], angles[0]];
+  }
+
+  return angles.map(angle => {
+    if (angle < -Math.PI) return angle + 2 * Math.PI;
+    if (angle > Math.PI) return angle - 2 * Math.PI;
+    return angle;
+  }) as EulerAngles;
+};
+
+/**
+ * オイラー角から回転行列 (4x4) を作成する
+ * @param angles `order` に並んだ軸に対応する回転角（ラジアン）
+ * @param order 回転を適用する軸の順番
+ * @param convention 回転軸が物体に固定されているか (intrinsic) 、ワールドに固定されているか (extrinsic)
+ * @throws ValidationError 不正な `order`
+ */
+export const toMat4 = (
+  angles: Readonly<EulerAngles>,
+  order: EulerOrder = "XYZ",
+  convention: EulerConvention = "intrinsic",
+): Mat4 => {
+  return quat.toMat4(toQuat(angles, order, convention));
+};
+
+/**
+ * 回転行列 (4x4) からオイラー角を求める
+ * @param matrix スケールを含まない回転行列。平行移動成分は無視される
+ * @param order 回転を適用する軸の順番
+ * @param convention 回転軸が物体に固定されているか (intrinsic) 、ワールドに固定されているか (extrinsic)
+ * @throws ValidationError 不正な `order`
+ * @see fromQuat ジンバルロック時の振る舞い
+ */
+export const fromMat4 = (
+  matrix: Mat4,
+  order: EulerOrder = "XYZ",
+  convention: EulerConvention = "intrinsic",
+): EulerAngles => {
+  return fromQuat(quat.fromMat4(matrix), order, convention);
+};
@@ -1,8 +1,15 @@
 import { is2dNumberArray } from "@/common";
-import { SingularMatrixError, ValidationError } from "./errors";
+import {
+  DimensionMismatchError,
+  SingularMatrixError,
+  ValidationError,
+} from "./errors";
 
 const TYPE_NAME = "F32Mat";
 
+/** 単精度浮動小数点数の計算機イプシロン */
+const FLOAT32_EPSILON = 2 ** -23;
+
 /**
  * サイズが可変である実数の行列\
  * webGLの仕様に合わせ、列優先でデータを持つ
@@ -282,6 +289,51 @@ export const multiplyScalar = <R extends number, C extends number>(
   return init(value, matrix.rowCount, matrix.colCount);
 };
 
+/**
+ * 全ての値の符号を反転した行列を返す
+ * @param matrix 対象の行列
+ * @returns 新しい行列
+ */
+export const negate = <R extends number, C extends number>(
+  matrix: F32Mat<R, C>,
+): F32Mat<R, C> => {
+  const value = matrix.value.map(v => -v);
+  return init(value, matrix.rowCount, matrix.colCount);
+};
+
+/**
+ * 要素ごとの積 (アダマール積) を返す
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 対応する値同士を掛けた新しい行列
+ * @throws ValidationError 演算対象の行列のサイズが異なる場合
+ */
+export const hadamard = <R extends number, C extends number>(
+  a: F32Mat<R, C>,
+  b: F32Mat<R, C>,
+): F32Mat<R, C> => {
+  assertSameSize(a, b);
+  const value = a.value.map((v, i) => v * b.value[i]);
+  return init(value, a.rowCount, a.colCount);
+};
+
+/**
+ * 要素ごとの商を返す
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 対応する値同士を割った新しい行列
+ * @throws ValidationError 演算対象の行列のサイズが異なる場合
+ * @remarks `b` に0が含まれる場合、対応する値は `Infinity` または `NaN` になる
+ */
+export const divideElementwise = <R extends number, C extends number>(
+  a: F32Mat<R, C>,
+  b: F32Mat<R, C>,
+): F32Mat<R, C> => {
+  assertSameSize(a, b);
+  const value = a.value.map((v, i) => v / b.value[i]);
+  return init(value, a.rowCount, a.colCount);
+};
+
 /**
  * 可変サイズ行列同士の演算。`Mat4.multiply()`等が使えるならそちらを優先する
  * @param a 左辺値
@@ -314,6 +366,108 @@ export const multiply = <M extends number, N extends number, P extends number>(
   return init(value, a.rowCount, b.colCount);
 };
 
+/**
+ * クロネッカー積を返す\
+ * `a` の各値 `a[i][j]` を、`b` を `a[i][j]` 倍したブロックに置き換えた行列になる
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns (a の行数 * b の行数) x (a の列数 * b の列数) の新しい行列
+ */
+export const kronecker = (
+  a: F32Mat<number, number>,
+  b: F32Mat<number, number>,
+): F32Mat<number, number> => {
+  const rowCount = a.rowCount * b.rowCount;
+  const colCount = a.colCount * b.colCount;
+  const value = new Float32Array(rowCount * colCount);
+
+  for (let aCol = 0; aCol < a.colCount; aCol++) {
+    for (let aRow = 0; aRow < a.rowCount; aRow++) {
+      const scalar = a.value[aCol * a.rowCount + aRow];
+      for (let bCol = 0; bCol < b.colCount; bCol++) {
+        const col = aCol * b.colCount + bCol;
+        for (let bRow = 0; bRow < b.rowCount; bRow++) {
+          const row = aRow * b.rowCount + bRow;
+          value[col * rowCount + row] =
+            scalar * b.value[bCol * b.rowCount + bRow];
+        }
+      }
+    }
+  }
+
+  return init(value, rowCount, colCount);
+};
+
+/**
+ * 対角成分の和 (トレース) を求める
+ * @param matrix 正方行列
+ * @throws ValidationError 正方行列でない
+ */
+export const trace = <T extends number>(matrix: F32Mat<T, T>): number => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+
+  let sum = 0;
+  for (let i = 0; i < size; i++) {
+    sum += matrix.value[i * size + i];
+  }
+  return sum;
+};
+
+/**
+ * 転置行列を返す
+ * @param matrix 転置する行列
+ * @returns 行と列を入れ替えた C x R の新しい行列
+ */
+export const transpose = <R extends number, C extends number>(
+  matrix: F32Mat<R, C>,
+): F32Mat<C, R> => {
+  const { rowCount, colCount } = matrix;
+  const value = new Float32Array(rowCount * colCount);
+
+  for (let col = 0; col < colCount; col++) {
+    for (let row = 0; row < rowCount; row++) {
+      value[row * colCount + col] = matrix.value[col * rowCount + row];
+    }
+  }
+
+  return init(value, colCount, rowCount);
+};
+
+/**
+ * 正方行列をその場で転置する。新しい行列を確保しない
+ * @param matrix 転置する正方行列。値が書き換えられる
+ * @returns 引数の `matrix`
+ * @throws ValidationError 正方行列でない
+ */
+export const transposeInPlace = <T extends number>(
+  matrix: F32Mat<T, T>,
+): F32Mat<T, T> => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+
+  const v = matrix.value;
+  for (let col = 1; col < size; col++) {
+    for (let row = 0; row < col; row++) {
+      const upper = col * size + row;
+      const lower = row * size + col;
+      const tmp = v[upper];
+      v[upper] = v[lower];
+      v[lower] = tmp;
+    }
+  }
+
+  return matrix;
+};
+
 /**
  * 2つの行列の対応する値の差が、全て与えられた許容範囲内であるかを返す
  * @param a 比較対象の1つ目の行列
@@ -420,32 +574,61 @@ export const subtractScaledRow = (
 };
 
 /**
- * 行列の指定した行をスカラー倍する
- * @param matrix F32Mat型の行列
- * @param row スカラー倍する行インデックス
- * @param scalar スカラー値
- *
- * @internal
+ * LU 分解 (`lu`, `luInverse`) を用いて逆行列を求める
+ * @param matrix 正則行列
+ * @returns 逆行列
+ * @throws ValidationError 正方行列でない
+ * @throws SingularMatrixError 特異行列。判定は `luSolve` と同じく U の対角成分の大きさによる
  */
-const scaleRow = (
-  matrix: F32Mat<number, number>,
-  row: number,
-  scalar: number,
-): void => {
-  for (let col = 0; col < matrix.colCount; col++) {
-    matrix.value[col * matrix.rowCount + row] *= scalar;
+export const inverse = <T extends number>(
+  matrix: F32Mat<T, T>,
+): F32Mat<T, T> => {
+  return luInverse(lu(matrix));
+};
+
+/**
+ * LU 分解 (`lu`, `luDeterminant`) を用いて行列式を求める。
+ * `inverse` が特異行列とみなす行列では、丸め誤差を残さず0を返す
+ * @param matrix
+ * @throws ValidationError 正方行列でない
+ */
+export const determinant = <T extends number>(matrix: F32Mat<T, T>): number => {
+  if (matrix.rowCount !== matrix.colCount) {
+    throw new ValidationError("Matrix must be square to compute determinant", {
+      cause: { reason: "notSquare", value: matrix },
+    });
   }
+  const decomposition = lu(matrix);
+  return isSingularUpper(decomposition.upper)
+    ? 0
+    : luDeterminant(decomposition);
 };
 
 /**
- * 掃き出し法を用いて逆行列を求める
- * 計算量 O(N^3) の素朴な実装
- * @param matrix 正則行列
- * @returns
+ * `lu` の結果。`P * A = L * U` を満たす
  */
-export const inverse = <T extends number>(
+export type F32LuDecomposition<T extends number> = {
+  /** 対角成分が1の下三角行列 L */
+  lower: F32Mat<T, T>;
+  /** 上三角行列 U */
+  upper: F32Mat<T, T>;
+  /** 行の置換 P。`P * A` の i 行目は `A` の `permutation[i]` 行目 */
+  permutation: number[];
+  /** 置換の符号。行を入れ替えた回数が偶数なら 1、奇数なら -1 */
+  sign: 1 | -1;
+};
+
+/**
+ * 部分ピボット選択付きのガウスの消去法で LU 分解を行う\
+ * 一度分解しておけば、行列式や逆行列、右辺だけが異なる連立方程式を分解し直さずに求められる
+ * @param matrix 正方行列
+ * @returns `P * A = L * U` を満たす L, U, P
+ * @throws ValidationError 正方行列でない
+ * @remarks 特異行列も分解できる。その場合 U の対角成分に0 (に近い値) が現れる
+ */
+export const lu = <T extends number>(
   matrix: F32Mat<T, T>,
-): F32Mat<T, T> => {
+): F32LuDecomposition<T> => {
   const size = matrix.colCount;
   if (matrix.rowCount !== size) {
     throw new ValidationError("Matrix must be square", {
@@ -453,100 +636,207 @@ export const inverse = <T extends number>(
     });
   }
 
-  const m = getClone(matrix);
-  const inv = getIdentity(size);
+  const upper = getClone(matrix);
+  const lower = getIdentity(size);
+  const permutation = Array.from({ length: size }, (_, i) => i);
+  let sign: 1 | -1 = 1;
 
   for (let pivot = 0; pivot < size; pivot++) {
-    let pivotValue = valueAt(m, pivot, pivot);
-
     // 最大の絶対値を持つ行を探す
     let maxRow = pivot;
-    let maxAbs = Math.abs(valueAt(m, pivot, pivot));
+    let maxAbs = Math.abs(valueAt(upper, pivot, pivot));
     for (let i = pivot + 1; i < size; i++) {
-      const val = Math.abs(valueAt(m, i, pivot));
+      const val = Math.abs(valueAt(upper, i, pivot));
       if (val > maxAbs) {
         maxAbs = val;
         maxRow = i;
       }
     }
 
-    // 特異行列チェック
-    if (maxAbs < 1e-6) {
-      throw new SingularMatrixError({ cause: { value: matrix } });
-    }
-
     if (maxRow !== pivot) {
-      swapRows(m, pivot, maxRow);
-      swapRows(inv, pivot, maxRow);
+      swapRows(upper, pivot, maxRow);
+      // L は確定済みの列 (pivot 列より左) だけを入れ替える
+      for (let col = 0; col < pivot; col++) {
+        const temp = lower.value[col * size + pivot];
+        lower.value[col * size + pivot] = lower.value[col * size + maxRow];
+        lower.value[col * size + maxRow] = temp;
+      }
+      [permutation[pivot], permutation[maxRow]] = [
+        permutation[maxRow],
+        permutation[pivot],
+      ];
+      sign = sign === 1 ? -1 : 1;
     }
 
-    pivotValue = valueAt(m, pivot, pivot);
+    // 列が全て0であれば、消去する必要がない
+    if (maxAbs === 0) continue;
 
-    scaleRow(m, pivot, 1 / pivotValue);
-    scaleRow(inv, pivot, 1 / pivotValue);
+    const pivotValue = valueAt(upper, pivot, pivot);
+    for (let row = pivot + 1; row < size; row++) {
+      const factor = valueAt(upper, row, pivot) / pivotValue;
+      if (factor === 0) continue;
+      subtractScaledRow(upper, row, pivot, factor);
+      // 丸め誤差を残さないよう、消去した成分は0にする
+      upper.value[pivot * size + row] = 0;
+      lower.value[pivot * size + row] = factor;
+    }
+  }
 
-    for (let row = 0; row < size; row++) {
-      if (row === pivot) continue;
-      const factor = valueAt(m, row, pivot);
-      if (Math.abs(factor) < 1e-8) continue;
-      subtractScaledRow(m, row, pivot, factor);
-      subtractScaledRow(inv, row, pivot, factor);
+  return { lower, upper, permutation, sign };
+};
+
+/**
+ * U の対角成分に、他の成分に比べて無視できるほど小さい値があれば特異とみなす
+ *
+ * @internal
+ */
+const isSingularUpper = (upper: F32Mat<number, number>): boolean => {
+  const size = upper.rowCount;
+  const maxAbs = upper.value.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+  const tolerance = size * FLOAT32_EPSILON * maxAbs;
+  for (let i = 0; i < size; i++) {
+    if (!(Math.abs(upper.value[i * size + i]) > tolerance)) {
+      return true;
     }
   }
+  return false;
+};
 
-  return inv;
+/**
+ * `isSingularUpper` で特異とみなされる場合に例外を投げる
+ *
+ * @internal
+ */
+const assertNonSingularUpper = (upper: F32Mat<number, number>): void => {
+  if (isSingularUpper(upper)) {
+    throw new SingularMatrixError({ cause: { value: upper } });
+  }
 };
 
 /**
- * ガウスの消去法を用いて行列式を求める。部分ピボットを採用
- * @param matrix
+ * LU 分解を用いて連立方程式 `A * X = B` を解く
+ * @param decomposition `lu(A)` の結果
+ * @param b 右辺。複数の列を持つ場合、列ごとに解く
+ * @returns `b` と同じサイズの解 `X`
+ * @throws DimensionMismatchError `b` の行数が `A` のサイズと異なる
+ * @throws SingularMatrixError `A` が特異行列
  */
-export const determinant = <T extends number>(matrix: F32Mat<T, T>): number => {
-  if (matrix.rowCount !== matrix.colCount) {
-    throw new ValidationError("Matrix must be square to compute determinant", {
-      cause: { reason: "notSquare", value: matrix },
+export const luSolve = <T extends number, C extends number>(
+  decomposition: F32LuDecomposition<T>,
+  b: F32Mat<T, C>,
+): F32Mat<T, C> => {
+  const { lower, upper, permutation } = decomposition;
+  const size = upper.rowCount;
+  if (b.rowCount !== size) {
+    throw new DimensionMismatchError(`${size} rows`, `${b.rowCount} rows`, {
+      cause: { value: [upper, b] },
     });
   }
+  assertNonSingularUpper(upper);
 
-  const size = matrix.rowCount;
-  const m = getClone(matrix);
-  let det = 1.0;
+  const l = lower.value;
+  const u = upper.value;
+  const x = new Float32Array(size * b.colCount);
 
-  for (let pivot = 0; pivot < size; pivot++) {
-    let pivotValue = valueAt(m, pivot, pivot);
-
-    // ピボットが (ほぼ) 0 の場合、行をスワップ
-    if (Math.abs(pivotValue) < 1e-6) {
-      let maxRow = pivot;
-      let maxAbs = Math.abs(valueAt(m, pivot, pivot));
-      for (let i = pivot + 1; i < size; i++) {
-        const val = Math.abs(valueAt(m, i, pivot));
-        if (val > maxAbs) {
-          maxAbs = val;
-          maxRow = i;
-        }
-      }
-      if (maxAbs === 0) {
-        return 0;
+  for (let col = 0; col < b.colCount; col++) {
+    const offset = col * size;
+    // 前進代入 L * y = P * b
+    for (let row = 0; row < size; row++) {
+      let sum = b.value[offset + permutation[row]];
+      for (let k = 0; k < row; k++) {
+        sum -= l[k * size + row] * x[offset + k];
       }
-      if (maxRow !== pivot) {
-        swapRows(m, pivot, maxRow);
-        det *= -1;
+      x[offset + row] = sum;
+    }
+    // 後退代入 U * x = y
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = x[offset + row];
+      for (let k = row + 1; k < size; k++) {
+        sum -= u[k * size + row] * x[offset + k];
       }
-      pivotValue = valueAt(m, pivot, pivot);
+      x[offset + row] = sum / u[row * size + row];
     }
+  }
 
-    det *= pivotValue;
-    scaleRow(m, pivot, 1 / pivotValue);
+  return init(x, b.rowCount, b.colCount);
+};
 
-    for (let row = pivot + 1; row < size; row++) {
-      const factor = valueAt(m, row, pivot);
-      if (Math.abs(factor) < 1e-8) continue;
-      subtractScaledRow(m, row, pivot, factor);
+/**
+ * LU 分解を用いて逆行列を求める
+ * @param decomposition `lu(A)` の結果
+ * @throws SingularMatrixError `A` が特異行列
+ */
+export const luInverse = <T extends number>(
+  decomposition: F32LuDecomposition<T>,
+): F32Mat<T, T> => {
+  return luSolve(decomposition, getIdentity(decomposition.upper.rowCount));
+};
+
+/**
+ * LU 分解を用いて行列式を求める。U の対角成分の積に置換の符号を掛けたもの
+ * @param decomposition `lu(A)` の結果
+ */
+export const luDeterminant = (
+  decomposition: F32LuDecomposition<number>,
+): number => {
+  const { upper, sign } = decomposition;
+  const size = upper.rowCount;
+  let det: number = sign;
+  for (let i = 0; i < size; i++) {
+    det *= upper.value[i * size + i];
+  }
+  return det;
+};
+
+/**
+ * LU 分解を用いて、行列式の符号と絶対値の自然対数を求める\
+ * 大きな行列で行列式がオーバーフロー・アンダーフローする場合に用いる
+ * @param decomposition `lu(A)` の結果
+ * @returns 行列式が0の場合、`sign` は 0、`logAbs` は `-Infinity`
+ */
+export const luLogDeterminant = (
+  decomposition: F32LuDecomposition<number>,
+): { sign: -1 | 0 | 1; logAbs: number } => {
+  const { upper } = decomposition;
+  const size = upper.rowCount;
+  let sign: -1 | 0 | 1 = decomposition.sign;
+  let logAbs = 0;
+  for (let i = 0; i < size; i++) {
+    const d = upper.value[i * size + i];
+    if (d === 0) {
+      return { sign: 0, logAbs: -Infinity };
+    }
+    if (d < 0) {
+      sign = sign === 1 ? -1 : 1;
     }
+    logAbs += Math.log(Math.abs(d));
   }
+  return { sign, logAbs };
+};
 
-  return det;
+/**
+ * 連立方程式 `A * X = B` を解く\
+ * `multiply(inverse(a), b)` より計算量が少なく、誤差も小さい
+ * @param a 係数行列
+ * @param b 右辺。複数の列を持つ場合、列ごとに解く
+ * @returns `b` と同じサイズの解 `X`
+ * @throws ValidationError `a` が正方行列でない
+ * @throws DimensionMismatchError `b` の行数が `a` の行数と異なる
+ * @throws SingularMatrixError `a` が特異行列
+ * @see luSolve 同じ係数行列で右辺だけを変えて繰り返し解く場合
+ */
+export const solve = <T extends number, C extends number>(
+  a: F32Mat<T, T>,
+  b: F32Mat<T, C>,
+): F32Mat<T, C> => {
+  if (b.rowCount !== a.rowCount) {
+    throw new DimensionMismatchError(
+      `${a.rowCount} rows`,
+      `${b.rowCount} rows`,
+      { cause: { value: [a, b] } },
+    );
+  }
+  return luSolve(lu(a), b);
 };
 
 /**
@@ -1,5 +1,11 @@
 import { is2dNumberArray } from "@/common";
-import { SingularMatrixError, ValidationError } from "./errors";
+import {
+  ConvergenceError,
+  DimensionMismatchError,
+  NotPositiveDefiniteError,
+  SingularMatrixError,
+  ValidationError,
+} from "./errors";
 
 const TYPE_NAME = "F64Mat";
 
@@ -287,6 +293,51 @@ export const multiplyScalar = <R extends number, C extends number>(
   return init(value, matrix.rowCount, matrix.colCount);
 };
 
+/**
+ * 全ての値の符号を反転した行列を返す
+ * @param matrix 対象の行列
+ * @returns 新しい行列
+ */
+export const negate = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+): F64Mat<R, C> => {
+  const value = matrix.value.map(v => -v);
+  return init(value, matrix.rowCount, matrix.colCount);
+};
+
+/**
+ * 要素ごとの積 (アダマール積) を返す
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 対応する値同士を掛けた新しい行列
+ * @throws ValidationError 演算対象の行列のサイズが異なる場合
+ */
+export const hadamard = <R extends number, C extends number>(
+  a: F64Mat<R, C>,
+  b: F64Mat<R, C>,
+): F64Mat<R, C> => {
+  assertSameSize(a, b);
+  const value = a.value.map((v, i) => v * b.value[i]);
+  return init(value, a.rowCount, a.colCount);
+};
+
+/**
+ * 要素ごとの商を返す
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 対応する値同士を割った新しい行列
+ * @throws ValidationError 演算対象の行列のサイズが異なる場合
+ * @remarks `b` に0が含まれる場合、対応する値は `Infinity` または `NaN` になる
+ */
+export const divideElementwise = <R extends number, C extends number>(
+  a: F64Mat<R, C>,
+  b: F64Mat<R, C>,
+): F64Mat<R, C> => {
+  assertSameSize(a, b);
+  const value = a.value.map((v, i) => v / b.value[i]);
+  return init(value, a.rowCount, a.colCount);
+};
+
 /**
  * 可変サイズ行列同士の演算。`Mat4.multiply()`等が使えるならそちらを優先する
  * @param a 左辺値
@@ -319,6 +370,108 @@ export const multiply = <M extends number, N extends number, P extends number>(
   return init(value, a.rowCount, b.colCount);
 };
 
+/**
+ * クロネッカー積を返す\
+ * `a` の各値 `a[i][j]` を、`b` を `a[i][j]` 倍したブロックに置き換えた行列になる
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns (a の行数 * b の行数) x (a の列数 * b の列数) の新しい行列
+ */
+export const kronecker = (
+  a: F64Mat<number, number>,
+  b: F64Mat<number, number>,
+): F64Mat<number, number> => {
+  const rowCount = a.rowCount * b.rowCount;
+  const colCount = a.colCount * b.colCount;
+  const value = new Float64Array(rowCount * colCount);
+
+  for (let aCol = 0; aCol < a.colCount; aCol++) {
+    for (let aRow = 0; aRow < a.rowCount; aRow++) {
+      const scalar = a.value[aCol * a.rowCount + aRow];
+      for (let bCol = 0; bCol < b.colCount; bCol++) {
+        const col = aCol * b.colCount + bCol;
+        for (let bRow = 0; bRow < b.rowCount; bRow++) {
+          const row = aRow * b.rowCount + bRow;
+          value[col * rowCount + row] =
+            scalar * b.value[bCol * b.rowCount + bRow];
+        }
+      }
+    }
+  }
+
+  return init(value, rowCount, colCount);
+};
+
+/**
+ * 対角成分の和 (トレース) を求める
+ * @param matrix 正方行列
+ * @throws ValidationError 正方行列でない
+ */
+export const trace = <T extends number>(matrix: F64Mat<T, T>): number => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+
+  let sum = 0;
+  for (let i = 0; i < size; i++) {
+    sum += matrix.value[i * size + i];
+  }
+  return sum;
+};
+
+/**
+ * 転置行列を返す
+ * @param matrix 転置する行列
+ * @returns 行と列を入れ替えた C x R の新しい行列
+ */
+export const transpose = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+): F64Mat<C, R> => {
+  const { rowCount, colCount } = matrix;
+  const value = new Float64Array(rowCount * colCount);
+
+  for (let col = 0; col < colCount; col++) {
+    for (let row = 0; row < rowCount; row++) {
+      value[row * colCount + col] = matrix.value[col * rowCount + row];
+    }
+  }
+
+  return init(value, colCount, rowCount);
+};
+
+/**
+ * 正方行列をその場で転置する。新しい行列を確保しない
+ * @param matrix 転置する正方行列。値が書き換えられる
+ * @returns 引数の `matrix`
+ * @throws ValidationError 正方行列でない
+ */
+export const transposeInPlace = <T extends number>(
+  matrix: F64Mat<T, T>,
+): F64Mat<T, T> => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+
+  const v = matrix.value;
+  for (let col = 1; col < size; col++) {
+    for (let row = 0; row < col; row++) {
+      const upper = col * size + row;
+      const lower = row * size + col;
+      const tmp = v[upper];
+      v[upper] = v[lower];
+      v[lower] = tmp;
+    }
+  }
+
+  return matrix;
+};
+
 /**
  * 2つの行列の対応する値の差が、全て与えられた許容範囲内であるかを返す
  * @param a 比較対象の1つ目の行列
@@ -443,14 +596,204 @@ const scaleRow = (
 };
 
 /**
- * 掃き出し法を用いて逆行列を求める
- * 計算量 O(N^3) の素朴な実装
+ * LU 分解 (`lu`, `luInverse`) を用いて逆行列を求める
  * @param matrix 正則行列
- * @returns
+ * @returns 逆行列
+ * @throws ValidationError 正方行列でない
+ * @throws SingularMatrixError 特異行列。判定は `luSolve` と同じく U の対角成分の大きさによる
  */
 export const inverse = <T extends number>(
   matrix: F64Mat<T, T>,
 ): F64Mat<T, T> => {
+  return luInverse(lu(matrix));
+};
+
+/**
+ * LU 分解 (`lu`, `luDeterminant`) を用いて行列式を求める。
+ * `inverse` が特異行列とみなす行列では、丸め誤差を残さず0を返す
+ * @param matrix
+ * @throws ValidationError 正方行列でない
+ */
+export const determinant = <T extends number>(matrix: F64Mat<T, T>): number => {
+  if (matrix.rowCount !== matrix.colCount) {
+    throw new ValidationError("Matrix must be square to compute determinant", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+  const decomposition = lu(matrix);
+  return isSingularUpper(decomposition.upper)
+    ? 0
+    : luDeterminant(decomposition);
+};
+
+/**
+ * 部分ピボット選択付きの掃き出し法で、行列を簡約階段形にする
+ * @param matrix 任意サイズの行列。変更されない
+ * @param tolerance 絶対値がこれ以下のピボット候補を0とみなす
+ * @returns 簡約階段形の行列と、ピボットのある列のインデックス (昇順)
+ *
+ * @internal
+ */
+const reduceRowEchelon = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  tolerance: number | undefined,
+): { reduced: F64Mat<R, C>; pivotColumns: number[] } => {
+  const m = getClone(matrix);
+  const { rowCount, colCount } = m;
+  const threshold =
+    tolerance ??
+    Math.max(rowCount, colCount) *
+      Number.EPSILON *
+      m.value.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+  const pivotColumns: number[] = [];
+
+  let pivotRow = 0;
+  for (let col = 0; col < colCount && pivotRow < rowCount; col++) {
+    // 最大の絶対値を持つ行を探す
+    let maxRow = pivotRow;
+    let maxAbs = 0;
+    for (let row = pivotRow; row < rowCount; row++) {
+      const val = Math.abs(m.value[col * rowCount + row]);
+      if (val > maxAbs) {
+        maxAbs = val;
+        maxRow = row;
+      }
+    }
+
+    if (maxAbs <= threshold) {
+      // 残りの行では0とみなし、ピボットのない列にする
+      for (let row = pivotRow; row < rowCount; row++) {
+        m.value[col * rowCount + row] = 0;
+      }
+      continue;
+    }
+
+    swapRows(m, pivotRow, maxRow);
+    scaleRow(m, pivotRow, 1 / m.value[col * rowCount + pivotRow]);
+    // 丸め誤差を残さないよう、ピボットはちょうど1にする
+    m.value[col * rowCount + pivotRow] = 1;
+
+    for (let row = 0; row < rowCount; row++) {
+      if (row === pivotRow) continue;
+      const factor = m.value[col * rowCount + row];
+      if (factor === 0) continue;
+      subtractScaledRow(m, row, pivotRow, factor);
+    }
+
+    pivotColumns.push(col);
+    pivotRow++;
+  }
+
+  return { reduced: m, pivotColumns };
+};
+
+/**
+ * 行列を簡約階段形 (reduced row echelon form) にする
+ * @param matrix 任意サイズの行列
+ * @param tolerance 絶対値がこれ以下の値を0とみなす。既定値は `max(R, C) * Number.EPSILON * 成分の絶対値の最大値`
+ * @returns 同じサイズの新しい行列
+ */
+export const rref = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  tolerance?: number,
+): F64Mat<R, C> => {
+  return reduceRowEchelon(matrix, tolerance).reduced;
+};
+
+/**
+ * 簡約階段形のピボットの数から、行列のランクを求める
+ * @param matrix 任意サイズの行列
+ * @param tolerance 絶対値がこれ以下の値を0とみなす。既定値は `rref` と同じ
+ * @remarks 誤差を含む値の数値ランクを求める場合は、特異値を用いる `leastSquares` の `rank` の方が安定している
+ */
+export const rank = (
+  matrix: F64Mat<number, number>,
+  tolerance?: number,
+): number => {
+  return reduceRowEchelon(matrix, tolerance).pivotColumns.length;
+};
+
+/**
+ * `A * x = 0` を満たすベクトル x 全体 (零空間) の基底を求める
+ * @param matrix R x C の行列
+ * @param tolerance 絶対値がこれ以下の値を0とみなす。既定値は `rref` と同じ
+ * @returns 各列が基底ベクトルである C x (C - rank) の行列。零空間が {0} であれば、列数0の行列は作れないため `null`\
+ * 基底は簡約階段形から作るため、正規直交ではない
+ */
+export const nullSpace = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  tolerance?: number,
+): F64Mat<C, number> | null => {
+  const { reduced, pivotColumns } = reduceRowEchelon(matrix, tolerance);
+  const { rowCount, colCount } = matrix;
+  const freeColumns = [...Array(colCount).keys()].filter(
+    col => !pivotColumns.includes(col),
+  );
+  if (freeColumns.length === 0) {
+    return null;
+  }
+
+  // 自由変数の1つを1、他を0としたときのピボット変数の値を並べる
+  const result = new Float64Array(colCount * freeColumns.length);
+  freeColumns.forEach((free, i) => {
+    result[i * colCount + free] = 1;
+    pivotColumns.forEach((pivot, row) => {
+      result[i * colCount + pivot] = -reduced.value[free * rowCount + row];
+    });
+  });
+
+  return init(result, colCount, freeColumns.length);
+};
+
+/**
+ * 列空間 (列ベクトルが張る空間) の基底を求める
+ * @param matrix R x C の行列
+ * @param tolerance 絶対値がこれ以下の値を0とみなす。既定値は `rref` と同じ
+ * @returns 簡約階段形のピボットのある列を、元の行列から取り出した R x rank の行列。ランクが0であれば `null`
+ */
+export const columnSpace = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  tolerance?: number,
+): F64Mat<R, number> | null => {
+  const { pivotColumns } = reduceRowEchelon(matrix, tolerance);
+  if (pivotColumns.length === 0) {
+    return null;
+  }
+  const { rowCount } = matrix;
+  return init(
+    pivotColumns.flatMap(col =>
+      Array.from(matrix.value.subarray(col * rowCount, (col + 1) * rowCount)),
+    ),
+    rowCount,
+    pivotColumns.length,
+  );
+};
+
+/**
+ * `lu` の結果。`P * A = L * U` を満たす
+ */
+export type F64LuDecomposition<T extends number> = {
+  /** 対角成分が1の下三角行列 L */
+  lower: F64Mat<T, T>;
+  /** 上三角行列 U */
+  upper: F64Mat<T, T>;
+  /** 行の置換 P。`P * A` の i 行目は `A` の `permutation[i]` 行目 */
+  permutation: number[];
+  /** 置換の符号。行を入れ替えた回数が偶数なら 1、奇数なら -1 */
+  sign: 1 | -1;
+};
+
+/**
+ * 部分ピボット選択付きのガウスの消去法で LU 分解を行う\
+ * 一度分解しておけば、行列式や逆行列、右辺だけが異なる連立方程式を分解し直さずに求められる
+ * @param matrix 正方行列
+ * @returns `P * A = L * U` を満たす L, U, P
+ * @throws ValidationError 正方行列でない
+ * @remarks 特異行列も分解できる。その場合 U の対角成分に0 (に近い値) が現れる
+ */
+export const lu = <T extends number>(
+  matrix: F64Mat<T, T>,
+): F64LuDecomposition<T> => {
   const size = matrix.colCount;
   if (matrix.rowCount !== size) {
     throw new ValidationError("Matrix must be square", {
@@ -458,102 +801,1805 @@ export const inverse = <T extends number>(
     });
   }
 
-  const m = getClone(matrix);
-  const inv = getIdentity(size);
+  const upper = getClone(matrix);
+  const lower = getIdentity(size);
+  const permutation = Array.from({ length: size }, (_, i) => i);
+  let sign: 1 | -1 = 1;
 
   for (let pivot = 0; pivot < size; pivot++) {
-    let pivotValue = valueAt(m, pivot, pivot);
-
     // 最大の絶対値を持つ行を探す
     let maxRow = pivot;
-    let maxAbs = Math.abs(valueAt(m, pivot, pivot));
+    let maxAbs = Math.abs(valueAt(upper, pivot, pivot));
     for (let i = pivot + 1; i < size; i++) {
-      const val = Math.abs(valueAt(m, i, pivot));
+      const val = Math.abs(valueAt(upper, i, pivot));
       if (val > maxAbs) {
         maxAbs = val;
         maxRow = i;
       }
     }
 
-    // 特異行列チェック
-    if (maxAbs < 1e-6) {
-      throw new SingularMatrixError({ cause: { value: matrix } });
-    }
-
     if (maxRow !== pivot) {
-      swapRows(m, pivot, maxRow);
-      swapRows(inv, pivot, maxRow);
+      swapRows(upper, pivot, maxRow);
+      // L は確定済みの列 (pivot 列より左) だけを入れ替える
+      for (let col = 0; col < pivot; col++) {
+        const temp = lower.value[col * size + pivot];
+        lower.value[col * size + pivot] = lower.value[col * size + maxRow];
+        lower.value[col * size + maxRow] = temp;
+      }
+      [permutation[pivot], permutation[maxRow]] = [
+        permutation[maxRow],
+        permutation[pivot],
+      ];
+      sign = sign === 1 ? -1 : 1;
     }
 
-    pivotValue = valueAt(m, pivot, pivot);
+    // 列が全て0であれば、消去する必要がない
+    if (maxAbs === 0) continue;
+
+    const pivotValue = valueAt(upper, pivot, pivot);
+    for (let row = pivot + 1; row < size; row++) {
+      const factor = valueAt(upper, row, pivot) / pivotValue;
+      if (factor === 0) continue;
+      subtractScaledRow(upper, row, pivot, factor);
+      // 丸め誤差を残さないよう、消去した成分は0にする
+      upper.value[pivot * size + row] = 0;
+      lower.value[pivot * size + row] = factor;
+    }
+  }
 
-    scaleRow(m, pivot, 1 / pivotValue);
-    scaleRow(inv, pivot, 1 / pivotValue);
+  return { lower, upper, permutation, sign };
+};
 
-    for (let row = 0; row < size; row++) {
-      if (row === pivot) continue;
-      const factor = valueAt(m, row, pivot);
-      if (Math.abs(factor) < 1e-8) continue;
-      subtractScaledRow(m, row, pivot, factor);
-      subtractScaledRow(inv, row, pivot, factor);
+/**
+ * U の対角成分に、他の成分に比べて無視できるほど小さい値があれば特異とみなす
+ *
+ * @internal
+ */
+const isSingularUpper = (upper: F64Mat<number, number>): boolean => {
+  const size = upper.rowCount;
+  const maxAbs = upper.value.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+  const tolerance = size * Number.EPSILON * maxAbs;
+  for (let i = 0; i < size; i++) {
+    if (!(Math.abs(upper.value[i * size + i]) > tolerance)) {
+      return true;
     }
   }
+  return false;
+};
 
-  return inv;
+/**
+ * `isSingularUpper` で特異とみなされる場合に例外を投げる
+ *
+ * @internal
+ */
+const assertNonSingularUpper = (upper: F64Mat<number, number>): void => {
+  if (isSingularUpper(upper)) {
+    throw new SingularMatrixError({ cause: { value: upper } });
+  }
 };
 
 /**
- * ガウスの消去法を用いて行列式を求める。
- * @param matrix
+ * LU 分解を用いて連立方程式 `A * X = B` を解く
+ * @param decomposition `lu(A)` の結果
+ * @param b 右辺。複数の列を持つ場合、列ごとに解く
+ * @returns `b` と同じサイズの解 `X`
+ * @throws DimensionMismatchError `b` の行数が `A` のサイズと異なる
+ * @throws SingularMatrixError `A` が特異行列
  */
-export const determinant = <T extends number>(matrix: F64Mat<T, T>): number => {
-  if (matrix.rowCount !== matrix.colCount) {
-    throw new ValidationError("Matrix must be square to compute determinant", {
-      cause: { reason: "notSquare", value: matrix },
+export const luSolve = <T extends number, C extends number>(
+  decomposition: F64LuDecomposition<T>,
+  b: F64Mat<T, C>,
+): F64Mat<T, C> => {
+  const { lower, upper, permutation } = decomposition;
+  const size = upper.rowCount;
+  if (b.rowCount !== size) {
+    throw new DimensionMismatchError(`${size} rows`, `${b.rowCount} rows`, {
+      cause: { value: [upper, b] },
     });
   }
+  assertNonSingularUpper(upper);
 
-  const size = matrix.rowCount;
-  const m = getClone(matrix);
-  let det = 1.0;
+  const l = lower.value;
+  const u = upper.value;
+  const x = new Float64Array(size * b.colCount);
 
-  for (let pivot = 0; pivot < size; pivot++) {
-    let pivotValue = valueAt(m, pivot, pivot);
-
-    // ピボットが (ほぼ) 0 の場合、行をスワップ
-    if (Math.abs(pivotValue) < 1e-5) {
-      let maxRow = pivot;
-      let maxAbs = Math.abs(valueAt(m, pivot, pivot));
-      for (let i = pivot + 1; i < size; i++) {
-        const val = Math.abs(valueAt(m, i, pivot));
-        if (val > maxAbs) {
-          maxAbs = val;
-          maxRow = i;
-        }
-      }
-      if (maxAbs === 0) {
-        return 0;
+  for (let col = 0; col < b.colCount; col++) {
+    const offset = col * size;
+    // 前進代入 L * y = P * b
+    for (let row = 0; row < size; row++) {
+      let sum = b.value[offset + permutation[row]];
+      for (let k = 0; k < row; k++) {
+        sum -= l[k * size + row] * x[offset + k];
       }
-      if (maxRow !== pivot) {
-        swapRows(m, pivot, maxRow);
-        det *= -1;
+      x[offset + row] = sum;
+    }
+    // 後退代入 U * x = y
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = x[offset + row];
+      for (let k = row + 1; k < size; k++) {
+        sum -= u[k * size + row] * x[offset + k];
       }
-      pivotValue = valueAt(m, pivot, pivot);
+      x[offset + row] = sum / u[row * size + row];
     }
+  }
+
+  return init(x, b.rowCount, b.colCount);
+};
+
+/**
+ * LU 分解を用いて、転置した係数行列の連立方程式 `A^T * X = B` を解く\
+ * `A^T = U^T * L^T * P` なので、`A^T` を分解し直さずに同じ L, U, P で解ける
+ *
+ * @internal
+ */
+const luSolveTransposed = <T extends number, C extends number>(
+  decomposition: F64LuDecomposition<T>,
+  b: F64Mat<T, C>,
+): F64Mat<T, C> => {
+  const { lower, upper, permutation } = decomposition;
+  const size = upper.rowCount;
+  assertNonSingularUpper(upper);
 
-    det *= pivotValue;
-    scaleRow(m, pivot, 1 / pivotValue);
+  const l = lower.value;
+  const u = upper.value;
+  const y = new Float64Array(size);
+  const x = new Float64Array(size * b.colCount);
 
-    for (let row = pivot + 1; row < size; row++) {
-      const factor = valueAt(m, row, pivot);
-      if (Math.abs(factor) < 1e-8) continue;
-      subtractScaledRow(m, row, pivot, factor);
+  for (let col = 0; col < b.colCount; col++) {
+    const offset = col * size;
+    // 前進代入 U^T * w = b
+    for (let row = 0; row < size; row++) {
+      let sum = b.value[offset + row];
+      for (let k = 0; k < row; k++) {
+        sum -= u[row * size + k] * y[k];
+      }
+      y[row] = sum / u[row * size + row];
+    }
+    // 後退代入 L^T * v = w
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = y[row];
+      for (let k = row + 1; k < size; k++) {
+        sum -= l[row * size + k] * y[k];
+      }
+      y[row] = sum;
+    }
+    // x = P^T * v
+    for (let row = 0; row < size; row++) {
+      x[offset + permutation[row]] = y[row];
     }
   }
 
+  return init(x, b.rowCount, b.colCount);
+};
+
+/**
+ * LU 分解を用いて逆行列を求める
+ * @param decomposition `lu(A)` の結果
+ * @throws SingularMatrixError `A` が特異行列
+ */
+export const luInverse = <T extends number>(
+  decomposition: F64LuDecomposition<T>,
+): F64Mat<T, T> => {
+  return luSolve(decomposition, getIdentity(decomposition.upper.rowCount));
+};
+
+/**
+ * LU 分解を用いて行列式を求める。U の対角成分の積に置換の符号を掛けたもの
+ * @param decomposition `lu(A)` の結果
+ */
+export const luDeterminant = (
+  decomposition: F64LuDecomposition<number>,
+): number => {
+  const { upper, sign } = decomposition;
+  const size = upper.rowCount;
+  let det: number = sign;
+  for (let i = 0; i < size; i++) {
+    det *= upper.value[i * size + i];
+  }
   return det;
 };
 
+/**
+ * LU 分解を用いて、行列式の符号と絶対値の自然対数を求める\
+ * 大きな行列で行列式がオーバーフロー・アンダーフローする場合に用いる
+ * @param decomposition `lu(A)` の結果
+ * @returns 行列式が0の場合、`sign` は 0、`logAbs` は `-Infinity`
+ */
+export const luLogDeterminant = (
+  decomposition: F64LuDecomposition<number>,
+): { sign: -1 | 0 | 1; logAbs: number } => {
+  const { upper } = decomposition;
+  const size = upper.rowCount;
+  let sign: -1 | 0 | 1 = decomposition.sign;
+  let logAbs = 0;
+  for (let i = 0; i < size; i++) {
+    const d = upper.value[i * size + i];
+    if (d === 0) {
+      return { sign: 0, logAbs: -Infinity };
+    }
+    if (d < 0) {
+      sign = sign === 1 ? -1 : 1;
+    }
+    logAbs += Math.log(Math.abs(d));
+  }
+  return { sign, logAbs };
+};
+
+/**
+ * 連立方程式 `A * X = B` を解く\
+ * `multiply(inverse(a), b)` より計算量が少なく、誤差も小さい
+ * @param a 係数行列
+ * @param b 右辺。複数の列を持つ場合、列ごとに解く
+ * @returns `b` と同じサイズの解 `X`
+ * @throws ValidationError `a` が正方行列でない
+ * @throws DimensionMismatchError `b` の行数が `a` の行数と異なる
+ * @throws SingularMatrixError `a` が特異行列
+ * @see luSolve 同じ係数行列で右辺だけを変えて繰り返し解く場合
+ */
+export const solve = <T extends number, C extends number>(
+  a: F64Mat<T, T>,
+  b: F64Mat<T, C>,
+): F64Mat<T, C> => {
+  if (b.rowCount !== a.rowCount) {
+    throw new DimensionMismatchError(
+      `${a.rowCount} rows`,
+      `${b.rowCount} rows`,
+      { cause: { value: [a, b] } },
+    );
+  }
+  return luSolve(lu(a), b);
+};
+
+/**
+ * 対称正定値行列をコレスキー分解し、`A = L * L^T` を満たす下三角行列 L を求める\
+ * LU 分解のおよそ半分の計算量で、ピボット選択も必要ない
+ * @param matrix 対称正定値行列。下三角部分のみを参照し、上三角部分は無視する
+ * @returns 対角成分が正の下三角行列 L
+ * @throws ValidationError 正方行列でない
+ * @throws NotPositiveDefiniteError 正定値でない
+ */
+export const cholesky = <T extends number>(
+  matrix: F64Mat<T, T>,
+): F64Mat<T, T> => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+
+  const a = matrix.value;
+  const l = new Float64Array(size * size);
+
+  for (let col = 0; col < size; col++) {
+    let diagonal = a[col * size + col];
+    for (let k = 0; k < col; k++) {
+      diagonal -= l[k * size + col] ** 2;
+    }
+    if (!(diagonal > 0)) {
+      throw new NotPositiveDefiniteError({
+        cause: { value: matrix, column: col },
+      });
+    }
+    const pivot = Math.sqrt(diagonal);
+    l[col * size + col] = pivot;
+
+    for (let row = col + 1; row < size; row++) {
+      let sum = a[col * size + row];
+      for (let k = 0; k < col; k++) {
+        sum -= l[k * size + row] * l[k * size + col];
+      }
+      l[col * size + row] = sum / pivot;
+    }
+  }
+
+  return init(l, size, size);
+};
+
+/**
+ * コレスキー分解を用いて連立方程式 `A * X = B` を解く
+ * @param lower `cholesky(A)` の結果
+ * @param b 右辺。複数の列を持つ場合、列ごとに解く
+ * @returns `b` と同じサイズの解 `X`
+ * @throws DimensionMismatchError `b` の行数が `A` のサイズと異なる
+ */
+export const choleskySolve = <T extends number, C extends number>(
+  lower: F64Mat<T, T>,
+  b: F64Mat<T, C>,
+): F64Mat<T, C> => {
+  const size = lower.rowCount;
+  if (b.rowCount !== size) {
+    throw new DimensionMismatchError(`${size} rows`, `${b.rowCount} rows`, {
+      cause: { value: [lower, b] },
+    });
+  }
+
+  const l = lower.value;
+  const x = Float64Array.from(b.value);
+
+  for (let col = 0; col < b.colCount; col++) {
+    const offset = col * size;
+    // 前進代入 L * y = b
+    for (let row = 0; row < size; row++) {
+      let sum = x[offset + row];
+      for (let k = 0; k < row; k++) {
+        sum -= l[k * size + row] * x[offset + k];
+      }
+      x[offset + row] = sum / l[row * size + row];
+    }
+    // 後退代入 L^T * x = y
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = x[offset + row];
+      for (let k = row + 1; k < size; k++) {
+        sum -= l[row * size + k] * x[offset + k];
+      }
+      x[offset + row] = sum / l[row * size + row];
+    }
+  }
+
+  return init(x, b.rowCount, b.colCount);
+};
+
+/**
+ * 係数行列が対称正定値である連立方程式 `A * X = B` を、コレスキー分解を用いて解く\
+ * 共分散行列や正規方程式など、対称正定値であることが分かっている場合は `solve` より高速
+ * @param a 対称正定値行列。下三角部分のみを参照する
+ * @param b 右辺。複数の列を持つ場合、列ごとに解く
+ * @returns `b` と同じサイズの解 `X`
+ * @throws ValidationError `a` が正方行列でない
+ * @throws DimensionMismatchError `b` の行数が `a` の行数と異なる
+ * @throws NotPositiveDefiniteError `a` が正定値でない
+ */
+export const solveSpd = <T extends number, C extends number>(
+  a: F64Mat<T, T>,
+  b: F64Mat<T, C>,
+): F64Mat<T, C> => {
+  if (b.rowCount !== a.rowCount) {
+    throw new DimensionMismatchError(
+      `${a.rowCount} rows`,
+      `${b.rowCount} rows`,
+      { cause: { value: [a, b] } },
+    );
+  }
+  return choleskySolve(cholesky(a), b);
+};
+
+/**
+ * `qr` の結果。`A = Q * R` を満たす
+ */
+export type QrDecomposition<
+  R extends number,
+  C extends number,
+  K extends number,
+> = {
+  /** 列が正規直交な行列 Q */
+  q: F64Mat<R, K>;
+  /** 上三角行列 R */
+  r: F64Mat<K, C>;
+};
+
+/**
+ * `qrPivoted` の結果。`A * P = Q * R` を満たす
+ */
+export type PivotedQrDecomposition<
+  R extends number,
+  C extends number,
+> = QrDecomposition<R, C, R> & {
+  /** 列の置換 P。`A * P` の j 列目は `A` の `permutation[j]` 列目 */
+  permutation: number[];
+  /** R の対角成分のうち、許容誤差より大きいものの数 */
+  rank: number;
+};
+
+/**
+ * ベクトルの 2-ノルムを求める\
+ * `Math.hypot(...v)` と異なり、要素数が多くても引数の上限やスタックの深さに制限されない。
+ * オーバーフローとアンダーフローを避けるため、絶対値の最大値で割ってから二乗和を計算する
+ *
+ * @internal
+ */
+const vectorNorm = (v: ArrayLike<number>): number => {
+  let scale = 0;
+  for (let i = 0; i < v.length; i++) {
+    scale = Math.max(scale, Math.abs(v[i]));
+  }
+  if (scale === 0 || !Number.isFinite(scale)) {
+    return scale;
+  }
+  let sum = 0;
+  for (let i = 0; i < v.length; i++) {
+    const x = v[i] / scale;
+    sum += x * x;
+  }
+  return scale * Math.sqrt(sum);
+};
+
+/**
+ * ハウスホルダー変換で列を順に上三角化する。`pivoting` が真なら、残りのノルムが最大の列を先に処理する
+ *
+ * @internal
+ */
+const householderTriangulate = (
+  matrix: F64Mat<number, number>,
+  pivoting: boolean,
+): {
+  a: Float64Array;
+  /** 単位ベクトル v で表したハウスホルダー変換 `I - 2 * v * v^T` */
+  reflectors: (Float64Array | null)[];
+  permutation: number[];
+} => {
+  const { rowCount, colCount } = matrix;
+  const a = Float64Array.from(matrix.value);
+  const steps = Math.min(rowCount, colCount);
+  const reflectors: (Float64Array | null)[] = [];
+  const permutation = Array.from({ length: colCount }, (_, i) => i);
+
+  for (let k = 0; k < steps; k++) {
+    if (pivoting) {
+      let maxCol = k;
+      let maxNorm = -1;
+      for (let col = k; col < colCount; col++) {
+        const norm = vectorNorm(
+          a.subarray(col * rowCount + k, (col + 1) * rowCount),
+        );
+        if (norm > maxNorm) {
+          maxNorm = norm;
+          maxCol = col;
+        }
+      }
+      if (maxCol !== k) {
+        for (let row = 0; row < rowCount; row++) {
+          const temp = a[k * rowCount + row];
+          a[k * rowCount + row] = a[maxCol * rowCount + row];
+          a[maxCol * rowCount + row] = temp;
+        }
+        [permutation[k], permutation[maxCol]] = [
+          permutation[maxCol],
+          permutation[k],
+        ];
+      }
+    }
+
+    // 最後の行には消去する成分がない
+    if (k === rowCount - 1) break;
+
+    // v = x - alpha * e1 (alpha は x0 と逆符号にして桁落ちを防ぐ)
+    const v = a.slice(k * rowCount + k, (k + 1) * rowCount);
+    const scale = v.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+    if (scale === 0) {
+      reflectors.push(null);
+      continue;
+    }
+    // 非常に小さい値や大きい値でも精度を保つため、最大値で割ってから計算する
+    for (let i = 0; i < v.length; i++) {
+      v[i] /= scale;
+    }
+    const norm = vectorNorm(v);
+    const alpha = v[0] > 0 ? -norm : norm;
+    v[0] -= alpha;
+    const vNorm = vectorNorm(v);
+    for (let i = 0; i < v.length; i++) {
+      v[i] /= vNorm;
+    }
+
+    // H = I - 2 * v * v^T を残りの列に適用する
+    for (let col = k + 1; col < colCount; col++) {
+      const offset = col * rowCount + k;
+      let dot = 0;
+      for (let i = 0; i < v.length; i++) {
+        dot += v[i] * a[offset + i];
+      }
+      for (let i = 0; i < v.length; i++) {
+        a[offset + i] -= 2 * dot * v[i];
+      }
+    }
+    a[k * rowCount + k] = alpha * scale;
+    a.fill(0, k * rowCount + k + 1, (k + 1) * rowCount);
+    reflectors.push(v);
+  }
+
+  return { a, reflectors, permutation };
+};
+
+/**
+ * ハウスホルダー変換の積 `H_0 * H_1 * ...` の先頭 `colCount` 列を求める
+ *
+ * @internal
+ */
+const accumulateReflectors = <R extends number, K extends number>(
+  reflectors: (Float64Array | null)[],
+  rowCount: R,
+  colCount: K,
+): F64Mat<R, K> => {
+  const q = new Float64Array(rowCount * colCount);
+  for (let i = 0; i < colCount; i++) {
+    q[i * rowCount + i] = 1;
+  }
+
+  for (let k = reflectors.length - 1; k >= 0; k--) {
+    const v = reflectors[k];
+    if (v === null) continue;
+    for (let col = 0; col < colCount; col++) {
+      const offset = col * rowCount + k;
+      let dot = 0;
+      for (let i = 0; i < v.length; i++) {
+        dot += v[i] * q[offset + i];
+      }
+      for (let i = 0; i < v.length; i++) {
+        q[offset + i] -= 2 * dot * v[i];
+      }
+    }
+  }
+
+  return init(q, rowCount, colCount);
+};
+
+/**
+ * ハウスホルダー変換で QR 分解を行う
+ * @param matrix 任意サイズの行列
+ * @returns R x R の直交行列 Q と、R x C の上三角行列 R
+ * @see qrEconomy 行数が列数より多い場合
+ */
+export const qr = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+): QrDecomposition<R, C, R> => {
+  const { rowCount, colCount } = matrix;
+  const { a, reflectors } = householderTriangulate(matrix, false);
+  return {
+    q: accumulateReflectors(reflectors, rowCount, rowCount),
+    r: init(a, rowCount, colCount),
+  };
+};
+
+/**
+ * ハウスホルダー変換で QR 分解を行い、Q と R の不要な部分を省いた形で返す\
+ * K = min(R, C) として、Q は R x K、R は K x C になる。最小二乗法など、Q の先頭の列だけが必要な場合に用いる
+ * @param matrix 任意サイズの行列
+ */
+export const qrEconomy = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+): QrDecomposition<R, C, number> => {
+  const { rowCount, colCount } = matrix;
+  const size = Math.min(rowCount, colCount);
+  const { a, reflectors } = householderTriangulate(matrix, false);
+
+  const r = new Float64Array(size * colCount);
+  for (let col = 0; col < colCount; col++) {
+    for (let row = 0; row < size; row++) {
+      r[col * size + row] = a[col * rowCount + row];
+    }
+  }
+
+  return {
+    q: accumulateReflectors(reflectors, rowCount, size),
+    r: init(r, size, colCount),
+  };
+};
+
+/**
+ * 列ピボット選択付きの QR 分解を行う\
+ * ノルムが大きい列から順に処理するため、R の対角成分の絶対値は降順に並び、数値的な階数を判定できる
+ * @param matrix 任意サイズの行列
+ * @param tolerance R の対角成分をこの値以下であれば0とみなす。既定値は `max(R, C) * ε * |R_00|`
+ */
+export const qrPivoted = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  tolerance?: number,
+): PivotedQrDecomposition<R, C> => {
+  const { rowCount, colCount } = matrix;
+  const { a, reflectors, permutation } = householderTriangulate(matrix, true);
+
+  const size = Math.min(rowCount, colCount);
+  const threshold =
+    tolerance ?? Math.max(rowCount, colCount) * Number.EPSILON * Math.abs(a[0]);
+  let rank = 0;
+  while (rank < size && Math.abs(a[rank * rowCount + rank]) > threshold) {
+    rank++;
+  }
+
+  return {
+    q: accumulateReflectors(reflectors, rowCount, rowCount),
+    r: init(a, rowCount, colCount),
+    permutation,
+    rank,
+  };
+};
+
+/**
+ * `svd` の結果。`A = U * Σ * V^T` を満たす
+ */
+export type SvdDecomposition<R extends number, C extends number> = {
+  /** 列が正規直交な行列 U */
+  u: F64Mat<R, number>;
+  /** 特異値を対角成分に持つ行列 Σ */
+  sigma: F64Mat<number, number>;
+  /** 行が正規直交な行列 V^T */
+  vt: F64Mat<number, C>;
+  /** 降順に並んだ特異値。長さは min(R, C) */
+  singularValues: number[];
+};
+
+export type SvdOptions = {
+  /**
+   * `true` であれば U を R x R、Σ を R x C、V^T を C x C で返す\
+   * 既定値は `false` で、K = min(R, C) として U を R x K、Σ を K x K、V^T を K x C で返す
+   */
+  full?: boolean;
+  /** 全ての列の組を回転する反復の最大回数。既定値は 60 */
+  maxIterations?: number;
+};
+
+/**
+ * 正規直交なベクトルの組の空き (`null`) を、既存のベクトルと直交する単位ベクトルで埋める\
+ * 既存のベクトルを並べた行列をハウスホルダー変換で QR 分解し、Q の残りの列を用いる
+ *
+ * @internal
+ */
+const completeOrthonormalBasis = (
+  basis: (Float64Array | null)[],
+  size: number,
+): Float64Array[] => {
+  const filled = basis.filter((v): v is Float64Array => v !== null);
+  if (filled.length === basis.length) {
+    return filled;
+  }
+
+  const { reflectors } = householderTriangulate(
+    init(
+      filled.flatMap(v => Array.from(v)),
+      size,
+      filled.length,
+    ),
+    false,
+  );
+  let next = filled.length;
+  return basis.map(vector => {
+    if (vector !== null) return vector;
+    // Q = H_0 * H_1 * ... の next 列目を、単位ベクトルに右から順に変換を適用して求める
+    const column = new Float64Array(size);
+    column[next++] = 1;
+    for (let k = reflectors.length - 1; k >= 0; k--) {
+      const v = reflectors[k];
+      if (v === null) continue;
+      let dot = 0;
+      for (let i = 0; i < v.length; i++) {
+        dot += v[i] * column[k + i];
+      }
+      for (let i = 0; i < v.length; i++) {
+        column[k + i] -= 2 * dot * v[i];
+      }
+    }
+    return column;
+  });
+};
+
+/**
+ * 片側ヤコビ法で、行数が列数以上の行列を特異値分解する
+ *
+ * @internal
+ */
+const jacobiSvd = (
+  matrix: F64Mat<number, number>,
+  maxIterations: number,
+): { u: Float64Array[]; v: Float64Array[]; singularValues: number[] } => {
+  const { rowCount, colCount } = matrix;
+  // アンダーフロー・オーバーフローを避けるため、最大値で割ってから計算する
+  const scale = matrix.value.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+  const w = Array.from({ length: colCount }, (_, j) =>
+    matrix.value
+      .slice(j * rowCount, (j + 1) * rowCount)
+      .map(x => (scale === 0 ? 0 : x / scale)),
+  );
+  const v = Array.from({ length: colCount }, (_, j) => {
+    const column = new Float64Array(colCount);
+    column[j] = 1;
+    return column;
+  });
+
+  // これより二乗ノルムが小さい列は0とみなし、回転しない
+  const negligible =
+    Number.EPSILON ** 2 *
+    w.reduce((sum, column) => sum + column.reduce((s, x) => s + x * x, 0), 0);
+
+  // 全ての列が互いに直交するまで、列の組を回転する
+  for (let iteration = 0; ; iteration++) {
+    if (iteration === maxIterations) {
+      throw new ConvergenceError(maxIterations, { cause: { value: matrix } });
+    }
+    let rotated = false;
+    for (let p = 0; p < colCount - 1; p++) {
+      for (let q = p + 1; q < colCount; q++) {
+        let alpha = 0;
+        let beta = 0;
+        let gamma = 0;
+        for (let k = 0; k < rowCount; k++) {
+          alpha += w[p][k] ** 2;
+          beta += w[q][k] ** 2;
+          gamma += w[p][k] * w[q][k];
+        }
+        const threshold = rowCount * Number.EPSILON * Math.sqrt(alpha * beta);
+        if (
+          alpha <= negligible ||
+          beta <= negligible ||
+          !(Math.abs(gamma) > threshold)
+        ) {
+          continue;
+        }
+        rotated = true;
+
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t =
+          Math.sign(zeta || 1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const s = c * t;
+        for (const columns of [w, v]) {
+          const x = columns[p];
+          const y = columns[q];
+          for (let k = 0; k < x.length; k++) {
+            const xk = x[k];
+            x[k] = c * xk - s * y[k];
+            y[k] = s * xk + c * y[k];
+          }
+        }
+      }
+    }
+    if (!rotated) break;
+  }
+
+  const norms = w.map(column => vectorNorm(column));
+  const order = norms.map((_, j) => j).sort((a, b) => norms[b] - norms[a]);
+  const singularValues = order.map(j => norms[j] * scale);
+  // 0 とみなせる特異値に対応する U の列は、後で直交するベクトルで補う
+  const tolerance =
+    Math.max(rowCount, colCount) * Number.EPSILON * (norms[order[0]] ?? 0);
+  const u = order.map(j =>
+    norms[j] > tolerance ? w[j].map(x => x / norms[j]) : null,
+  );
+
+  return {
+    u: completeOrthonormalBasis(u, rowCount),
+    v: order.map(j => v[j]),
+    singularValues,
+  };
+};
+
+/**
+ * 特異値分解を行う。片側ヤコビ法を用いるため、小さな特異値も高い相対精度で求まる
+ * @param matrix 任意サイズの行列
+ * @param options 完全な形で返すか、反復の最大回数
+ * @returns 特異値は降順に並ぶ
+ * @throws ConvergenceError `maxIterations` 回の反復で収束しなかった
+ */
+export const svd = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  options: SvdOptions = {},
+): SvdDecomposition<R, C> => {
+  const { rowCount, colCount } = matrix;
+  const maxIterations = options.maxIterations ?? 60;
+
+  // 行数が列数より少なければ、転置した行列を分解して U と V を入れ替える
+  const isWide = rowCount < colCount;
+  const decomposition = jacobiSvd(
+    isWide ? transpose(matrix) : matrix,
+    maxIterations,
+  );
+  let u = isWide ? decomposition.v : decomposition.u;
+  let v = isWide ? decomposition.u : decomposition.v;
+  const { singularValues } = decomposition;
+
+  const full = options.full ?? false;
+  if (full) {
+    u = completeOrthonormalBasis(
+      [...u, ...Array<null>(rowCount - u.length).fill(null)],
+      rowCount,
+    );
+    v = completeOrthonormalBasis(
+      [...v, ...Array<null>(colCount - v.length).fill(null)],
+      colCount,
+    );
+  }
+
+  const sigmaRows = full ? rowCount : singularValues.length;
+  const sigmaCols = full ? colCount : singularValues.length;
+  const sigma = new Float64Array(sigmaRows * sigmaCols);
+  singularValues.forEach((value, i) => {
+    sigma[i * sigmaRows + i] = value;
+  });
+
+  const vt = new Float64Array(v.length * colCount);
+  v.forEach((column, i) => {
+    column.forEach((x, j) => {
+      vt[j * v.length + i] = x;
+    });
+  });
+
+  return {
+    u: init(
+      u.flatMap(column => Array.from(column)),
+      rowCount,
+      u.length,
+    ),
+    sigma: init(sigma, sigmaRows, sigmaCols),
+    vt: init(vt, v.length, colCount),
+    singularValues,
+  };
+};
+
+/**
+ * `eigSymmetric` の結果
+ */
+export type SymmetricEigenDecomposition<T extends number> = {
+  /** 降順に並んだ固有値 */
+  values: number[];
+  /** i 列目が `values[i]` に対応する単位固有ベクトルである直交行列 */
+  vectors: F64Mat<T, T>;
+};
+
+export type EigenOptions = {
+  /** 非対角成分のノルムが、行列全体のノルムのこの倍以下になれば収束とする。既定値は `1e-14` */
+  tolerance?: number;
+  /** 全ての非対角成分を1回ずつ消去する反復の最大回数。既定値は 50 */
+  maxIterations?: number;
+};
+
+/**
+ * 対称行列の固有値と固有ベクトルを、巡回ヤコビ法で求める\
+ * 慣性テンソルや共分散行列の主軸を求める場合に用いる
+ * @param matrix 対称行列。下三角部分のみを参照し、上三角部分は無視する
+ * @param options 収束判定の許容誤差と、反復の最大回数
+ * @throws ValidationError 正方行列でない
+ * @throws ConvergenceError `maxIterations` 回の反復で収束しなかった
+ * @see mat3.eigSymmetric 3x3 行列の場合
+ */
+export const eigSymmetric = <T extends number>(
+  matrix: F64Mat<T, T>,
+  options: EigenOptions = {},
+): SymmetricEigenDecomposition<T> => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+  const tolerance = options.tolerance ?? 1e-14;
+  const maxIterations = options.maxIterations ?? 50;
+
+  // 下三角部分を上三角部分に写し、厳密に対称にする
+  const a = Float64Array.from(matrix.value);
+  for (let col = 0; col < size; col++) {
+    for (let row = 0; row < col; row++) {
+      a[col * size + row] = a[row * size + col];
+    }
+  }
+  const v = getIdentity(size).value;
+  const norm = Math.sqrt(a.reduce((sum, x) => sum + x * x, 0));
+
+  for (let iteration = 0; ; iteration++) {
+    let off = 0;
+    for (let col = 0; col < size; col++) {
+      for (let row = 0; row < size; row++) {
+        if (row !== col) off += a[col * size + row] ** 2;
+      }
+    }
+    if (Math.sqrt(off) <= tolerance * norm) break;
+    if (iteration === maxIterations) {
+      throw new ConvergenceError(maxIterations, { cause: { value: matrix } });
+    }
+
+    for (let p = 0; p < size - 1; p++) {
+      for (let q = p + 1; q < size; q++) {
+        const apq = a[q * size + p];
+        if (apq === 0) continue;
+        // a'_pq = 0 となる回転角を、桁落ちしない形で求める
+        const theta = (a[q * size + q] - a[p * size + p]) / (2 * apq);
+        const t =
+          Math.sign(theta || 1) / (Math.abs(theta) + Math.hypot(theta, 1));
+        const c = 1 / Math.hypot(t, 1);
+        const s = t * c;
+
+        // A' = J^T * A * J, V' = V * J
+        for (let k = 0; k < size; k++) {
+          const akp = a[p * size + k];
+          const akq = a[q * size + k];
+          a[p * size + k] = c * akp - s * akq;
+          a[q * size + k] = s * akp + c * akq;
+          const vkp = v[p * size + k];
+          const vkq = v[q * size + k];
+          v[p * size + k] = c * vkp - s * vkq;
+          v[q * size + k] = s * vkp + c * vkq;
+        }
+        for (let k = 0; k < size; k++) {
+          const apk = a[k * size + p];
+          const aqk = a[k * size + q];
+          a[k * size + p] = c * apk - s * aqk;
+          a[k * size + q] = s * apk + c * aqk;
+        }
+        a[q * size + p] = 0;
+        a[p * size + q] = 0;
+      }
+    }
+  }
+
+  const order = Array.from({ length: size }, (_, i) => i).sort(
+    (i, j) => a[j * size + j] - a[i * size + i],
+  );
+  return {
+    values: order.map(i => a[i * size + i]),
+    vectors: init(
+      order.flatMap(i => Array.from(v.slice(i * size, (i + 1) * size))),
+      size,
+      size,
+    ),
+  };
+};
+
+/**
+ * `eig` の結果。i 番目の固有値は `real[i] + imag[i] * i` になる
+ */
+export type EigenDecomposition<T extends number> = {
+  /** 固有値の実部 */
+  real: number[];
+  /** 固有値の虚部。実数の固有値では 0 */
+  imag: number[];
+  /** i 列目が i 番目の固有値に対応する単位固有ベクトルの実部。`vectors` を指定した場合のみ */
+  vectorsReal?: F64Mat<T, T>;
+  /** i 列目が i 番目の固有値に対応する単位固有ベクトルの虚部。`vectors` を指定した場合のみ */
+  vectorsImag?: F64Mat<T, T>;
+};
+
+export type GeneralEigenOptions = {
+  /** 固有ベクトルも求めるか。既定値は `false` */
+  vectors?: boolean;
+  /** 1つの固有値 (または複素共役の組) あたりの QR 反復の最大回数。既定値は 100 */
+  maxIterations?: number;
+};
+
+/**
+ * 複素数の除算 `(xr + xi * i) / (yr + yi * i)`
+ *
+ * @internal
+ */
+const complexDivide = (
+  xr: number,
+  xi: number,
+  yr: number,
+  yi: number,
+): [number, number] => {
+  if (Math.abs(yr) > Math.abs(yi)) {
+    const r = yi / yr;
+    const d = yr + r * yi;
+    return [(xr + r * xi) / d, (xi - r * xr) / d];
+  }
+  const r = yr / yi;
+  const d = yi + r * yr;
+  return [(r * xr + xi) / d, (r * xi - xr) / d];
+};
+
+/**
+ * ハウスホルダー変換で上ヘッセンベルグ行列に相似変換する。`h` を書き換え、変換行列を返す
+ *
+ * @internal
+ */
+const reduceToHessenberg = (h: number[][]): number[][] => {
+  const n = h.length;
+  const ort = new Array<number>(n).fill(0);
+
+  for (let m = 1; m < n - 1; m++) {
+    let scale = 0;
+    for (let i = m; i < n; i++) {
+      scale += Math.abs(h[i][m - 1]);
+    }
+    if (scale === 0) continue;
+
+    let sum = 0;
+    for (let i = n - 1; i >= m; i--) {
+      ort[i] = h[i][m - 1] / scale;
+      sum += ort[i] * ort[i];
+    }
+    const g = ort[m] > 0 ? -Math.sqrt(sum) : Math.sqrt(sum);
+    sum -= ort[m] * g;
+    ort[m] -= g;
+
+    // H = (I - u * u^T / sum) * H * (I - u * u^T / sum)
+    for (let j = m; j < n; j++) {
+      let f = 0;
+      for (let i = n - 1; i >= m; i--) {
+        f += ort[i] * h[i][j];
+      }
+      f /= sum;
+      for (let i = m; i < n; i++) {
+        h[i][j] -= f * ort[i];
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      let f = 0;
+      for (let j = n - 1; j >= m; j--) {
+        f += ort[j] * h[i][j];
+      }
+      f /= sum;
+      for (let j = m; j < n; j++) {
+        h[i][j] -= f * ort[j];
+      }
+    }
+    ort[m] *= scale;
+    h[m][m - 1] = scale * g;
+  }
+
+  // 変換行列を累積する
+  const v = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  );
+  for (let m = n - 2; m >= 1; m--) {
+    if (h[m][m - 1] === 0) continue;
+    for (let i = m + 1; i < n; i++) {
+      ort[i] = h[i][m - 1];
+    }
+    for (let j = m; j < n; j++) {
+      let g = 0;
+      for (let i = m; i < n; i++) {
+        g += ort[i] * v[i][j];
+      }
+      // アンダーフローを避けるため、2回に分けて割る
+      g = g / ort[m] / h[m][m - 1];
+      for (let i = m; i < n; i++) {
+        v[i][j] += g * ort[i];
+      }
+    }
+  }
+
+  return v;
+};
+
+/**
+ * 上ヘッセンベルグ行列をダブルシフト QR 法で実シュール形式にし、固有値と固有ベクトルを求める\
+ * `h` と `v` を書き換え、`v` の列に (複素数の場合は実部と虚部の2列に分けて) 固有ベクトルを格納する
+ *
+ * @internal
+ * @see https://math.nist.gov/javanumerics/jama/ JAMA の `hqr2` を元にしている
+ */
+const hessenbergQr = (
+  h: number[][],
+  v: number[][],
+  maxIterations: number,
+  cause: unknown,
+): { d: number[]; e: number[] } => {
+  const nn = h.length;
+  const d = new Array<number>(nn).fill(0);
+  const e = new Array<number>(nn).fill(0);
+  const eps = Number.EPSILON;
+  let exshift = 0;
+  let p = 0;
+  let q = 0;
+  let r = 0;
+  let s = 0;
+  let z = 0;
+  let t: number;
+  let w: number;
+  let x: number;
+  let y: number;
+
+  let norm = 0;
+  for (let i = 0; i < nn; i++) {
+    for (let j = Math.max(i - 1, 0); j < nn; j++) {
+      norm += Math.abs(h[i][j]);
+    }
+  }
+
+  let n = nn - 1;
+  let iter = 0;
+  while (n >= 0) {
+    // 下副対角成分のうち、十分に小さいものを探す
+    let l = n;
+    while (l > 0) {
+      s = Math.abs(h[l - 1][l - 1]) + Math.abs(h[l][l]);
+      if (s === 0) s = norm;
+      if (Math.abs(h[l][l - 1]) < eps * s) break;
+      l--;
+    }
+
+    if (l === n) {
+      // 1つの実数の固有値が求まった
+      h[n][n] += exshift;
+      d[n] = h[n][n];
+      e[n] = 0;
+      n--;
+      iter = 0;
+    } else if (l === n - 1) {
+      // 2つの固有値が求まった
+      w = h[n][n - 1] * h[n - 1][n];
+      p = (h[n - 1][n - 1] - h[n][n]) / 2;
+      q = p * p + w;
+      z = Math.sqrt(Math.abs(q));
+      h[n][n] += exshift;
+      h[n - 1][n - 1] += exshift;
+      x = h[n][n];
+
+      if (q >= 0) {
+        // 実数の組
+        z = p >= 0 ? p + z : p - z;
+        d[n - 1] = x + z;
+        d[n] = z !== 0 ? x - w / z : d[n - 1];
+        e[n - 1] = 0;
+        e[n] = 0;
+        x = h[n][n - 1];
+        s = Math.abs(x) + Math.abs(z);
+        p = x / s;
+        q = z / s;
+        r = Math.sqrt(p * p + q * q);
+        p /= r;
+        q /= r;
+
+        for (let j = n - 1; j < nn; j++) {
+          z = h[n - 1][j];
+          h[n - 1][j] = q * z + p * h[n][j];
+          h[n][j] = q * h[n][j] - p * z;
+        }
+        for (let i = 0; i <= n; i++) {
+          z = h[i][n - 1];
+          h[i][n - 1] = q * z + p * h[i][n];
+          h[i][n] = q * h[i][n] - p * z;
+        }
+        for (let i = 0; i < nn; i++) {
+          z = v[i][n - 1];
+          v[i][n - 1] = q * z + p * v[i][n];
+          v[i][n] = q * v[i][n] - p * z;
+        }
+      } else {
+        // 複素共役の組
+        d[n - 1] = x + p;
+        d[n] = x + p;
+        e[n - 1] = z;
+        e[n] = -z;
+      }
+      n -= 2;
+      iter = 0;
+    } else {
+      // シフトを決める
+      x = h[n][n];
+      y = 0;
+      w = 0;
+      if (l < n) {
+        y = h[n - 1][n - 1];
+        w = h[n][n - 1] * h[n - 1][n];
+      }
+
+      // 収束が遅い場合は、例外的なシフトで停滞を抜け出す
+      if (iter === 10) {
+        exshift += x;
+        for (let i = 0; i <= n; i++) {
+          h[i][i] -= x;
+        }
+        s = Math.abs(h[n][n - 1]) + Math.abs(h[n - 1][n - 2]);
+        x = y = 0.75 * s;
+        w = -0.4375 * s * s;
+      }
+      if (iter === 30) {
+        s = (y - x) / 2;
+        s = s * s + w;
+        if (s > 0) {
+          s = Math.sqrt(s);
+          if (y < x) s = -s;
+          s = x - w / ((y - x) / 2 + s);
+          for (let i = 0; i <= n; i++) {
+            h[i][i] -= s;
+          }
+          exshift += s;
+          x = y = w = 0.964;
+        }
+      }
+
+      iter++;
+      if (iter > maxIterations) {
+        throw new ConvergenceError(maxIterations, { cause });
+      }
+
+      // 連続する2つの下副対角成分が小さくなる位置を探す
+      let m = n - 2;
+      while (m >= l) {
+        z = h[m][m];
+        r = x - z;
+        s = y - z;
+        p = (r * s - w) / h[m + 1][m] + h[m][m + 1];
+        q = h[m + 1][m + 1] - z - r - s;
+        r = h[m + 2][m + 1];
+        s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+        p /= s;
+        q /= s;
+        r /= s;
+        if (m === l) break;
+        if (
+          Math.abs(h[m][m - 1]) * (Math.abs(q) + Math.abs(r)) <
+          eps *
+            (Math.abs(p) *
+              (Math.abs(h[m - 1][m - 1]) +
+                Math.abs(z) +
+                Math.abs(h[m + 1][m + 1])))
+        ) {
+          break;
+        }
+        m--;
+      }
+
+      for (let i = m + 2; i <= n; i++) {
+        h[i][i - 2] = 0;
+        if (i > m + 2) h[i][i - 3] = 0;
+      }
+
+      // l 行から n 行、m 列から n 列にダブルシフト QR ステップを適用する
+      for (let k = m; k <= n - 1; k++) {
+        const notLast = k !== n - 1;
+        if (k !== m) {
+          p = h[k][k - 1];
+          q = h[k + 1][k - 1];
+          r = notLast ? h[k + 2][k - 1] : 0;
+          x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+          if (x === 0) continue;
+          p /= x;
+          q /= x;
+          r /= x;
+        }
+
+        s = Math.sqrt(p * p + q * q + r * r);
+        if (p < 0) s = -s;
+        if (s === 0) continue;
+
+        if (k !== m) {
+          h[k][k - 1] = -s * x;
+        } else if (l !== m) {
+          h[k][k - 1] = -h[k][k - 1];
+        }
+        p += s;
+        x = p / s;
+        y = q / s;
+        z = r / s;
+        q /= p;
+        r /= p;
+
+        for (let j = k; j < nn; j++) {
+          p = h[k][j] + q * h[k + 1][j];
+          if (notLast) {
+            p += r * h[k + 2][j];
+            h[k + 2][j] -= p * z;
+          }
+          h[k][j] -= p * x;
+          h[k + 1][j] -= p * y;
+        }
+        for (let i = 0; i <= Math.min(n, k + 3); i++) {
+          p = x * h[i][k] + y * h[i][k + 1];
+          if (notLast) {
+            p += z * h[i][k + 2];
+            h[i][k + 2] -= p * r;
+          }
+          h[i][k] -= p;
+          h[i][k + 1] -= p * q;
+        }
+        for (let i = 0; i < nn; i++) {
+          p = x * v[i][k] + y * v[i][k + 1];
+          if (notLast) {
+            p += z * v[i][k + 2];
+            v[i][k + 2] -= p * r;
+          }
+          v[i][k] -= p;
+          v[i][k + 1] -= p * q;
+        }
+      }
+    }
+  }
+
+  if (norm === 0) {
+    return { d, e };
+  }
+
+  // 後退代入で、上三角行列 (実シュール形式) の固有ベクトルを求める
+  for (n = nn - 1; n >= 0; n--) {
+    p = d[n];
+    q = e[n];
+
+    if (q === 0) {
+      // 実数のベクトル
+      let l = n;
+      h[n][n] = 1;
+      for (let i = n - 1; i >= 0; i--) {
+        w = h[i][i] - p;
+        r = 0;
+        for (let j = l; j <= n; j++) {
+          r += h[i][j] * h[j][n];
+        }
+        if (e[i] < 0) {
+          z = w;
+          s = r;
+          continue;
+        }
+        l = i;
+        if (e[i] === 0) {
+          h[i][n] = w !== 0 ? -r / w : -r / (eps * norm);
+        } else {
+          x = h[i][i + 1];
+          y = h[i + 1][i];
+          q = (d[i] - p) * (d[i] - p) + e[i] * e[i];
+          t = (x * s - z * r) / q;
+          h[i][n] = t;
+          h[i + 1][n] =
+            Math.abs(x) > Math.abs(z) ? (-r - w * t) / x : (-s - y * t) / z;
+        }
+        // オーバーフローを防ぐ
+        t = Math.abs(h[i][n]);
+        if (eps * t * t > 1) {
+          for (let j = i; j <= n; j++) {
+            h[j][n] /= t;
+          }
+        }
+      }
+    } else if (q < 0) {
+      // 複素数のベクトル。実部を n - 1 列、虚部を n 列に持つ
+      let l = n - 1;
+      if (Math.abs(h[n][n - 1]) > Math.abs(h[n - 1][n])) {
+        h[n - 1][n - 1] = q / h[n][n - 1];
+        h[n - 1][n] = -(h[n][n] - p) / h[n][n - 1];
+      } else {
+        [h[n - 1][n - 1], h[n - 1][n]] = complexDivide(
+          0,
+          -h[n - 1][n],
+          h[n - 1][n - 1] - p,
+          q,
+        );
+      }
+      h[n][n - 1] = 0;
+      h[n][n] = 1;
+      for (let i = n - 2; i >= 0; i--) {
+        let ra = 0;
+        let sa = 0;
+        for (let j = l; j <= n; j++) {
+          ra += h[i][j] * h[j][n - 1];
+          sa += h[i][j] * h[j][n];
+        }
+        w = h[i][i] - p;
+
+        if (e[i] < 0) {
+          z = w;
+          r = ra;
+          s = sa;
+          continue;
+        }
+        l = i;
+        if (e[i] === 0) {
+          [h[i][n - 1], h[i][n]] = complexDivide(-ra, -sa, w, q);
+        } else {
+          x = h[i][i + 1];
+          y = h[i + 1][i];
+          let vr = (d[i] - p) * (d[i] - p) + e[i] * e[i] - q * q;
+          const vi = (d[i] - p) * 2 * q;
+          if (vr === 0 && vi === 0) {
+            vr =
+              eps *
+              norm *
+              (Math.abs(w) +
+                Math.abs(q) +
+                Math.abs(x) +
+                Math.abs(y) +
+                Math.abs(z));
+          }
+          [h[i][n - 1], h[i][n]] = complexDivide(
+            x * r - z * ra + q * sa,
+            x * s - z * sa - q * ra,
+            vr,
+            vi,
+          );
+          if (Math.abs(x) > Math.abs(z) + Math.abs(q)) {
+            h[i + 1][n - 1] = (-ra - w * h[i][n - 1] + q * h[i][n]) / x;
+            h[i + 1][n] = (-sa - w * h[i][n] - q * h[i][n - 1]) / x;
+          } else {
+            [h[i + 1][n - 1], h[i + 1][n]] = complexDivide(
+              -r - y * h[i][n - 1],
+              -s - y * h[i][n],
+              z,
+              q,
+            );
+          }
+        }
+        // オーバーフローを防ぐ
+        t = Math.max(Math.abs(h[i][n - 1]), Math.abs(h[i][n]));
+        if (eps * t * t > 1) {
+          for (let j = i; j <= n; j++) {
+            h[j][n - 1] /= t;
+            h[j][n] /= t;
+          }
+        }
+      }
+    }
+  }
+
+  // 元の行列の固有ベクトルに戻す
+  for (let j = nn - 1; j >= 0; j--) {
+    for (let i = 0; i < nn; i++) {
+      z = 0;
+      for (let k = 0; k <= j; k++) {
+        z += v[i][k] * h[k][j];
+      }
+      v[i][j] = z;
+    }
+  }
+
+  return { d, e };
+};
+
+/**
+ * 一般の正方行列の固有値を、ヘッセンベルグ化とダブルシフト QR 法で求める\
+ * 非対称行列の固有値は複素数になりうるため、実部と虚部に分けて返す
+ * @param matrix 正方行列
+ * @param options 固有ベクトルも求めるか、反復の最大回数
+ * @returns 固有値は実部の降順、実部が等しければ虚部の降順に並ぶ
+ * @throws ValidationError 正方行列でない
+ * @throws ConvergenceError `maxIterations` 回の反復で収束しなかった
+ * @see eigSymmetric 対称行列の場合
+ */
+export const eig = <T extends number>(
+  matrix: F64Mat<T, T>,
+  options: GeneralEigenOptions = {},
+): EigenDecomposition<T> => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+
+  const h = toRowMajor2dArray(matrix);
+  const v = reduceToHessenberg(h);
+  const { d, e } = hessenbergQr(h, v, options.maxIterations ?? 100, {
+    value: matrix,
+  });
+
+  const order = d.map((_, i) => i).sort((i, j) => d[j] - d[i] || e[j] - e[i]);
+  const result: EigenDecomposition<T> = {
+    real: order.map(i => d[i]),
+    imag: order.map(i => e[i]),
+  };
+  if (!options.vectors) {
+    return result;
+  }
+
+  // 複素共役の組 (j, j + 1) では、j 列目に実部、j + 1 列目に虚部が入っている
+  const vectorsReal = new Float64Array(size * size);
+  const vectorsImag = new Float64Array(size * size);
+  order.forEach((j, col) => {
+    const realCol = e[j] === 0 ? j : e[j] > 0 ? j : j - 1;
+    const imagCol = realCol + 1;
+    const sign = e[j] < 0 ? -1 : 1;
+    let sum = 0;
+    for (let i = 0; i < size; i++) {
+      const re = v[i][realCol];
+      const im = e[j] === 0 ? 0 : sign * v[i][imagCol];
+      vectorsReal[col * size + i] = re;
+      vectorsImag[col * size + i] = im;
+      sum += re * re + im * im;
+    }
+    const length = Math.sqrt(sum);
+    for (let i = 0; i < size; i++) {
+      vectorsReal[col * size + i] /= length;
+      vectorsImag[col * size + i] /= length;
+    }
+  });
+
+  return {
+    ...result,
+    vectorsReal: init(vectorsReal, size, size),
+    vectorsImag: init(vectorsImag, size, size),
+  };
+};
+
+/**
+ * べき乗法で、絶対値が最大の固有値とその固有ベクトルを求める\
+ * 大きな行列で、支配的な固有値だけが必要な場合に用いる
+ * @param matrix 正方行列。絶対値が最大の固有値が実数で、1つだけである必要がある
+ * @param options 収束判定の許容誤差、反復の最大回数、初期ベクトル
+ * @returns 固有値と、単位固有ベクトル
+ * @throws ValidationError 正方行列でない、または初期ベクトルが零ベクトル
+ * @throws DimensionMismatchError 初期ベクトルの要素数が行列のサイズと異なる
+ * @throws ConvergenceError `maxIterations` 回の反復で収束しなかった
+ */
+export const powerIteration = <T extends number>(
+  matrix: F64Mat<T, T>,
+  options: {
+    /** 残差 `|A * x - λ * x|` が `|λ|` のこの倍以下になれば収束とする。既定値は `1e-10` */
+    tolerance?: number;
+    /** 既定値は 1000 */
+    maxIterations?: number;
+    /** 既定値は全ての成分が等しいベクトル */
+    initialVector?: ArrayLike<number>;
+  } = {},
+): { value: number; vector: F64Mat<T, 1> } => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+  const tolerance = options.tolerance ?? 1e-10;
+  const maxIterations = options.maxIterations ?? 1000;
+
+  const initialVector = options.initialVector ?? new Array(size).fill(1);
+  if (initialVector.length !== size) {
+    throw new DimensionMismatchError(
+      `${size} elements`,
+      `${initialVector.length} elements`,
+      { cause: { value: [matrix, initialVector] } },
+    );
+  }
+  const initialNorm = vectorNorm(initialVector);
+  if (!(initialNorm > 0 && Number.isFinite(initialNorm))) {
+    throw new ValidationError("Initial vector must be non-zero and finite", {
+      cause: { reason: "zeroVector", value: initialVector },
+    });
+  }
+  let x: F64Mat<T, 1> = multiplyScalar(
+    init(initialVector, size, 1),
+    1 / initialNorm,
+  );
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const y = multiply(matrix, x);
+    // x は単位ベクトルなので、レイリー商は x^T * A * x
+    const value = y.value.reduce((sum, yi, i) => sum + yi * x.value[i], 0);
+    const residual = vectorNorm(
+      y.value.map((yi, i) => yi - value * x.value[i]),
+    );
+    if (residual <= tolerance * Math.abs(value)) {
+      return { value, vector: x };
+    }
+    const length = vectorNorm(y.value);
+    if (length === 0) {
+      // 初期ベクトルが零空間にある
+      return { value: 0, vector: x };
+    }
+    x = multiplyScalar(y, 1 / length);
+  }
+
+  throw new ConvergenceError(maxIterations, { cause: { value: matrix } });
+};
+
+/**
+ * `leastSquares` の結果
+ */
+export type LeastSquaresResult<C extends number, K extends number> = {
+  /** `|A * X - B|` を最小にする解のうち、ノルムが最小のもの */
+  solution: F64Mat<C, K>;
+  /** 残差 `A * X - B` のフロベニウスノルム */
+  residualNorm: number;
+  /** 許容誤差より大きい特異値の数 */
+  rank: number;
+};
+
+/**
+ * 特異値分解から擬似逆行列と実効ランクを求める
+ *
+ * @internal
+ */
+const truncatedPseudoInverse = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  tolerance: number | undefined,
+): { inverse: F64Mat<C, R>; rank: number } => {
+  const { rowCount, colCount } = matrix;
+  const { u, vt, singularValues } = svd(matrix);
+  const k = singularValues.length;
+  const threshold =
+    tolerance ??
+    Math.max(rowCount, colCount) * Number.EPSILON * (singularValues[0] ?? 0);
+  const rank = singularValues.filter(s => s > threshold).length;
+
+  // A^+ = V * Σ^+ * U^T
+  const result = new Float64Array(colCount * rowCount);
+  for (let i = 0; i < rank; i++) {
+    const inv = 1 / singularValues[i];
+    for (let row = 0; row < rowCount; row++) {
+      const ui = u.value[i * rowCount + row] * inv;
+      for (let col = 0; col < colCount; col++) {
+        result[row * colCount + col] += vt.value[col * k + i] * ui;
+      }
+    }
+  }
+
+  return { inverse: init(result, colCount, rowCount), rank };
+};
+
+/**
+ * ムーア・ペンローズの擬似逆行列を、特異値分解を用いて求める\
+ * 正方でない行列や特異行列にも定義され、正則行列では逆行列に一致する
+ * @param matrix 任意サイズの行列
+ * @param tolerance これ以下の特異値を0とみなす。既定値は `max(R, C) * Number.EPSILON * 最大特異値`
+ * @returns C x R の行列
+ * @throws ConvergenceError 特異値分解が収束しなかった
+ */
+export const pseudoInverse = <R extends number, C extends number>(
+  matrix: F64Mat<R, C>,
+  tolerance?: number,
+): F64Mat<C, R> => {
+  return truncatedPseudoInverse(matrix, tolerance).inverse;
+};
+
+/**
+ * 最小二乗法で `A * X ≈ B` を解く\
+ * ノイズを含む点群への平面や多項式の当てはめなど、方程式の数が未知数より多い場合に用いる\
+ * ランク落ちしている場合は、残差を最小にする解のうちノルムが最小のものを返す
+ * @param a 係数行列。任意サイズでよい
+ * @param b 右辺。複数の列を持つ場合、列ごとに解く
+ * @param tolerance これ以下の特異値を0とみなす。既定値は `pseudoInverse` と同じ
+ * @throws DimensionMismatchError `b` の行数が `a` の行数と異なる
+ * @throws ConvergenceError 特異値分解が収束しなかった
+ */
+export const leastSquares = <
+  R extends number,
+  C extends number,
+  K extends number,
+>(
+  a: F64Mat<R, C>,
+  b: F64Mat<R, K>,
+  tolerance?: number,
+): LeastSquaresResult<C, K> => {
+  if (b.rowCount !== a.rowCount) {
+    throw new DimensionMismatchError(
+      `${a.rowCount} rows`,
+      `${b.rowCount} rows`,
+      { cause: { value: [a, b] } },
+    );
+  }
+
+  const { inverse, rank } = truncatedPseudoInverse(a, tolerance);
+  const solution = multiply(inverse, b);
+  const residual = subtract(multiply(a, solution), b).value;
+
+  return {
+    solution,
+    residualNorm: vectorNorm(residual),
+    rank,
+  };
+};
+
+/**
+ * 行列ノルムの種類
+ * - `"frobenius"` : 全成分の二乗和の平方根
+ * - `"one"` : 列ごとの絶対値の和の最大値
+ * - `"infinity"` : 行ごとの絶対値の和の最大値
+ * - `"spectral"` : 最大特異値。特異値分解を行うため、他より計算量が多い
+ */
+export type MatrixNorm = "frobenius" | "one" | "infinity" | "spectral";
+
+/**
+ * 行列ノルムを求める
+ * @param matrix 任意サイズの行列
+ * @param kind ノルムの種類。既定値は `"frobenius"`
+ * @throws ValidationError 不正な `kind`
+ * @throws ConvergenceError `"spectral"` で特異値分解が収束しなかった
+ */
+export const norm = (
+  matrix: F64Mat<number, number>,
+  kind: MatrixNorm = "frobenius",
+): number => {
+  const { rowCount, colCount, value } = matrix;
+
+  switch (kind) {
+    case "frobenius":
+      return Math.sqrt(value.reduce((sum, x) => sum + x * x, 0));
+    case "one": {
+      let max = 0;
+      for (let col = 0; col < colCount; col++) {
+        let sum = 0;
+        for (let row = 0; row < rowCount; row++) {
+          sum += Math.abs(value[col * rowCount + row]);
+        }
+        max = Math.max(max, sum);
+      }
+      return max;
+    }
+    case "infinity": {
+      const sums = new Float64Array(rowCount);
+      value.forEach((x, i) => {
+        sums[i % rowCount] += Math.abs(x);
+      });
+      return sums.reduce((max, sum) => Math.max(max, sum), 0);
+    }
+    case "spectral":
+      return svd(matrix).singularValues[0] ?? 0;
+    default:
+      throw new ValidationError(`Invalid norm: ${kind as string}`, {
+        cause: { reason: "invalidNorm", value: kind },
+      });
+  }
+};
+
+/**
+ * 2-ノルムに関する条件数 (最大特異値と最小特異値の比) を、特異値分解を用いて求める\
+ * 値が大きいほど、逆行列や連立方程式の解が入力の誤差に敏感になる。`10^k` であれば、解の有効桁数がおよそ k 桁失われる
+ * @param matrix 任意サイズの行列
+ * @returns 最小特異値が0であれば `Infinity`
+ * @throws ConvergenceError 特異値分解が収束しなかった
+ * @see estimateConditionNumber 大きな正方行列で、おおよその値があればよい場合
+ */
+export const conditionNumber = (matrix: F64Mat<number, number>): number => {
+  const { singularValues } = svd(matrix);
+  if (singularValues.length === 0) {
+    return 0;
+  }
+  const min = singularValues[singularValues.length - 1];
+  return min === 0 ? Infinity : singularValues[0] / min;
+};
+
+/**
+ * 1-ノルムに関する条件数 `|A|_1 * |A^-1|_1` を、Hager の方法 (Higham による改良版) で推定する\
+ * 逆行列を求めず、1回の LU 分解と、その分解を使い回した数回の連立方程式の求解で済むため、`conditionNumber` より高速に求まる
+ * @param matrix 正方行列
+ * @returns 真の値以下の推定値。多くの場合は真の値に一致するか、数倍以内に収まる\
+ * 特異行列であれば `Infinity`
+ * @throws ValidationError 正方行列でない
+ * @see https://doi.org/10.1145/50063.214386
+ */
+export const estimateConditionNumber = <T extends number>(
+  matrix: F64Mat<T, T>,
+): number => {
+  const size = matrix.colCount;
+  if (matrix.rowCount !== size) {
+    throw new ValidationError("Matrix must be square", {
+      cause: { reason: "notSquare", value: matrix },
+    });
+  }
+  if (size === 0) {
+    return 0;
+  }
+
+  const decomposition = lu(matrix);
+  const sumAbs = (v: Float64Array): number =>
+    v.reduce((sum, x) => sum + Math.abs(x), 0);
+
+  try {
+    // |A^-1|_1 = max |A^-1 * x|_1 (|x|_1 = 1) を、勾配をたどって頂点 x = e_j の中から探す
+    let x = init(new Array(size).fill(1 / size), size, 1);
+    let inverseNorm = 0;
+    let previousIndex = -1;
+    for (let iteration = 0; iteration < 5; iteration++) {
+      const y = luSolve(decomposition, x);
+      inverseNorm = Math.max(inverseNorm, sumAbs(y.value));
+      const signs = init(
+        y.value.map(v => (v < 0 ? -1 : 1)),
+        size,
+        1,
+      );
+      const z = luSolveTransposed(decomposition, signs).value;
+
+      let maxIndex = 0;
+      z.forEach((v, i) => {
+        if (Math.abs(v) > Math.abs(z[maxIndex])) maxIndex = i;
+      });
+      const zx = z.reduce((sum, v, i) => sum + v * x.value[i], 0);
+      if (Math.abs(z[maxIndex]) <= zx || maxIndex === previousIndex) break;
+
+      previousIndex = maxIndex;
+      x = init(new Float64Array(size), size, 1);
+      x.value[maxIndex] = 1;
+    }
+
+    // 局所的な最大値で止まった場合に備え、符号が交互に変わるベクトルでも試す (Higham)
+    const alternating = init(
+      Array.from(
+        { length: size },
+        (_, i) => (i % 2 === 0 ? 1 : -1) * (1 + i / Math.max(size - 1, 1)),
+      ),
+      size,
+      1,
+    );
+    inverseNorm = Math.max(
+      inverseNorm,
+      (2 * sumAbs(luSolve(decomposition, alternating).value)) / (3 * size),
+    );
+
+    return norm(matrix, "one") * inverseNorm;
+  } catch (error) {
+    if (error instanceof SingularMatrixError) {
+      return Infinity;
+    }
+    throw error;
+  }
+};
+
 /**
  * 行列をコンソール上で確認しやすいテキストに整形する\
  * @remarks 今のところ未使用。
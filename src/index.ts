@@ -11,11 +11,43 @@ export namespace f64Mat {
   export const valueAt = f64.valueAt;
   export const add = f64.add;
   export const subtract = f64.subtract;
+  export const negate = f64.negate;
+  export const hadamard = f64.hadamard;
+  export const divideElementwise = f64.divideElementwise;
   export const multiply = f64.multiply;
+  export const kronecker = f64.kronecker;
+  export const trace = f64.trace;
   export const equals = f64.equals;
   export const sameSize = f64.sameSize;
+  export const transpose = f64.transpose;
+  export const transposeInPlace = f64.transposeInPlace;
   export const inverse = f64.inverse;
   export const determinant = f64.determinant;
+  export const rref = f64.rref;
+  export const rank = f64.rank;
+  export const nullSpace = f64.nullSpace;
+  export const columnSpace = f64.columnSpace;
+  export const lu = f64.lu;
+  export const luSolve = f64.luSolve;
+  export const luInverse = f64.luInverse;
+  export const luDeterminant = f64.luDeterminant;
+  export const luLogDeterminant = f64.luLogDeterminant;
+  export const solve = f64.solve;
+  export const cholesky = f64.cholesky;
+  export const choleskySolve = f64.choleskySolve;
+  export const solveSpd = f64.solveSpd;
+  export const qr = f64.qr;
+  export const qrEconomy = f64.qrEconomy;
+  export const qrPivoted = f64.qrPivoted;
+  export const svd = f64.svd;
+  export const eigSymmetric = f64.eigSymmetric;
+  export const eig = f64.eig;
+  export const powerIteration = f64.powerIteration;
+  export const pseudoInverse = f64.pseudoInverse;
+  export const leastSquares = f64.leastSquares;
+  export const norm = f64.norm;
+  export const conditionNumber = f64.conditionNumber;
+  export const estimateConditionNumber = f64.estimateConditionNumber;
   export const toString = f64.toString;
 }
 
@@ -31,10 +63,222 @@ export namespace f32Mat {
   export const valueAt = f32.valueAt;
   export const add = f32.add;
   export const subtract = f32.subtract;
+  export const negate = f32.negate;
+  export const hadamard = f32.hadamard;
+  export const divideElementwise = f32.divideElementwise;
   export const multiply = f32.multiply;
+  export const kronecker = f32.kronecker;
+  export const trace = f32.trace;
   export const equals = f32.equals;
   export const sameSize = f32.sameSize;
+  export const transpose = f32.transpose;
+  export const transposeInPlace = f32.transposeInPlace;
   export const inverse = f32.inverse;
   export const determinant = f32.determinant;
+  export const lu = f32.lu;
+  export const luSolve = f32.luSolve;
+  export const luInverse = f32.luInverse;
+  export const luDeterminant = f32.luDeterminant;
+  export const luLogDeterminant = f32.luLogDeterminant;
+  export const solve = f32.solve;
   export const toString = f32.toString;
 }
+
+import * as m4 from "./mat4";
+
+export namespace mat4 {
+  export const isMat4 = m4.isMat4;
+  export const fromColumnMajor = m4.fromColumnMajor;
+  export const fromRowMajor = m4.fromRowMajor;
+  export const getClone = m4.getClone;
+  export const getIdentity = m4.getIdentity;
+  export const toRowMajorArray = m4.toRowMajorArray;
+  export const toRowMajor2dArray = m4.toRowMajor2dArray;
+  export const valueAt = m4.valueAt;
+  export const add = m4.add;
+  export const subtract = m4.subtract;
+  export const multiplyScalar = m4.multiplyScalar;
+  export const multiply = m4.multiply;
+  export const equals = m4.equals;
+  export const sameSize = m4.sameSize;
+  export const multiplyVec4 = m4.multiplyVec4;
+  export const transformPoint = m4.transformPoint;
+  export const transformDirection = m4.transformDirection;
+  export const transpose = m4.transpose;
+  export const transposeInPlace = m4.transposeInPlace;
+  export const inverse = m4.inverse;
+  export const invertAffine = m4.invertAffine;
+  export const invertRigid = m4.invertRigid;
+  export const determinant = m4.determinant;
+  export const toString = m4.toString;
+  export const getTranslation = m4.getTranslation;
+  export const getRotateX = m4.getRotateX;
+  export const getRotateY = m4.getRotateY;
+  export const getRotateZ = m4.getRotateZ;
+  export const getRotate = m4.getRotate;
+  export const getScale = m4.getScale;
+  export const getLookAt = m4.getLookAt;
+  export const getPerspective = m4.getPerspective;
+  export const getPerspectiveReverseZ = m4.getPerspectiveReverseZ;
+  export const getPerspectiveInfinite = m4.getPerspectiveInfinite;
+  export const getPerspectiveInfiniteReverseZ =
+    m4.getPerspectiveInfiniteReverseZ;
+  export const getOrthographic = m4.getOrthographic;
+  export const getFrustum = m4.getFrustum;
+  export const convertDepthRange = m4.convertDepthRange;
+  export const convertHandedness = m4.convertHandedness;
+  export const decompose = m4.decompose;
+  export const compose = m4.compose;
+}
+
+import * as v2 from "./vec2";
+
+export namespace vec2 {
+  export const isVec2 = v2.isVec2;
+  export const init = v2.init;
+  export const getClone = v2.getClone;
+  export const getZero = v2.getZero;
+  export const add = v2.add;
+  export const subtract = v2.subtract;
+  export const scale = v2.scale;
+  export const dot = v2.dot;
+  export const length = v2.length;
+  export const normalize = v2.normalize;
+  export const equals = v2.equals;
+  export const toString = v2.toString;
+}
+
+import * as v3 from "./vec3";
+
+export namespace vec3 {
+  export const isVec3 = v3.isVec3;
+  export const init = v3.init;
+  export const getClone = v3.getClone;
+  export const getZero = v3.getZero;
+  export const add = v3.add;
+  export const subtract = v3.subtract;
+  export const scale = v3.scale;
+  export const dot = v3.dot;
+  export const cross = v3.cross;
+  export const length = v3.length;
+  export const normalize = v3.normalize;
+  export const equals = v3.equals;
+  export const toString = v3.toString;
+}
+
+import * as v4 from "./vec4";
+
+export namespace vec4 {
+  export const isVec4 = v4.isVec4;
+  export const init = v4.init;
+  export const getClone = v4.getClone;
+  export const getZero = v4.getZero;
+  export const add = v4.add;
+  export const subtract = v4.subtract;
+  export const scale = v4.scale;
+  export const dot = v4.dot;
+  export const length = v4.length;
+  export const normalize = v4.normalize;
+  export const equals = v4.equals;
+  export const toString = v4.toString;
+}
+
+import * as m3 from "./mat3";
+
+export namespace mat3 {
+  export const isMat3 = m3.isMat3;
+  export const fromColumnMajor = m3.fromColumnMajor;
+  export const fromRowMajor = m3.fromRowMajor;
+  export const getClone = m3.getClone;
+  export const getIdentity = m3.getIdentity;
+  export const toRowMajorArray = m3.toRowMajorArray;
+  export const valueAt = m3.valueAt;
+  export const multiply = m3.multiply;
+  export const multiplyVec3 = m3.multiplyVec3;
+  export const transpose = m3.transpose;
+  export const determinant = m3.determinant;
+  export const inverse = m3.inverse;
+  export const equals = m3.equals;
+  export const toString = m3.toString;
+  export const getTranslation = m3.getTranslation;
+  export const getRotate = m3.getRotate;
+  export const getScale = m3.getScale;
+  export const fromMat4 = m3.fromMat4;
+  export const normalFromMat4 = m3.normalFromMat4;
+  export const eigSymmetric = m3.eigSymmetric;
+}
+
+import * as q from "./quat";
+
+export namespace quat {
+  export const isQuat = q.isQuat;
+  export const init = q.init;
+  export const getIdentity = q.getIdentity;
+  export const getClone = q.getClone;
+  export const fromAxisAngle = q.fromAxisAngle;
+  export const toAxisAngle = q.toAxisAngle;
+  export const multiply = q.multiply;
+  export const conjugate = q.conjugate;
+  export const inverse = q.inverse;
+  export const dot = q.dot;
+  export const length = q.length;
+  export const normalize = q.normalize;
+  export const nlerp = q.nlerp;
+  export const slerp = q.slerp;
+  export const rotateVec3 = q.rotateVec3;
+  export const toMat3 = q.toMat3;
+  export const toMat4 = q.toMat4;
+  export const fromMat3 = q.fromMat3;
+  export const fromMat4 = q.fromMat4;
+  export const equals = q.equals;
+  export const toString = q.toString;
+}
+
+import * as e from "./euler";
+
+export namespace euler {
+  export const toQuat = e.toQuat;
+  export const fromQuat = e.fromQuat;
+  export const toMat4 = e.toMat4;
+  export const fromMat4 = e.fromMat4;
+}
+
+import * as m4Out from "./mat4Out";
+
+export namespace mat4Out {
+  export const copy = m4Out.copy;
+  export const getIdentity = m4Out.getIdentity;
+  export const add = m4Out.add;
+  export const subtract = m4Out.subtract;
+  export const multiplyScalar = m4Out.multiplyScalar;
+  export const multiply = m4Out.multiply;
+  export const transpose = m4Out.transpose;
+  export const inverse = m4Out.inverse;
+  export const invertAffine = m4Out.invertAffine;
+  export const invertRigid = m4Out.invertRigid;
+  export const getTranslation = m4Out.getTranslation;
+  export const getRotateX = m4Out.getRotateX;
+  export const getRotateY = m4Out.getRotateY;
+  export const getRotateZ = m4Out.getRotateZ;
+  export const getRotate = m4Out.getRotate;
+  export const getScale = m4Out.getScale;
+  export const getLookAt = m4Out.getLookAt;
+  export const getPerspective = m4Out.getPerspective;
+  export const getPerspectiveReverseZ = m4Out.getPerspectiveReverseZ;
+  export const getPerspectiveInfinite = m4Out.getPerspectiveInfinite;
+  export const getPerspectiveInfiniteReverseZ =
+    m4Out.getPerspectiveInfiniteReverseZ;
+  export const getOrthographic = m4Out.getOrthographic;
+  export const getFrustum = m4Out.getFrustum;
+  export const convertDepthRange = m4Out.convertDepthRange;
+  export const convertHandedness = m4Out.convertHandedness;
+}
+
+import * as vb from "./vertexBuffer";
+
+export namespace vertexBuffer {
+  export const transformPoints = vb.transformPoints;
+  export const transformVec4s = vb.transformVec4s;
+  export const transformDirections = vb.transformDirections;
+  export const transformNormals = vb.transformNormals;
+}
@@ -0,0 +1,322 @@
+import { is2dNumberArray } from "@/common";
+import * as fMat from "./f32Mat";
+import {
+  ConvergenceError,
+  SingularMatrixError,
+  ValidationError,
+} from "./errors";
+import type { EigenOptions } from "./f64Mat";
+import type { Mat4 } from "./mat4";
+import * as vec3 from "./vec3";
+
+/**
+ * 3x3行列。法線行列や2Dのアフィン変換に用いる\
+ * `value`はそのまま`uniformMatrix3fv`に渡せる
+ */
+export type Mat3 = fMat.F32Mat<3, 3>;
+
+/**
+ * 引数が`Mat3`型を満たしており、論理的に構造が破綻していないか確かめる
+ * @param value 検査対象
+ */
+export const isMat3 = (value: unknown): value is Mat3 => {
+  return (
+    fMat.isF32Mat(value) &&
+    value.rowCount === 3 &&
+    value.colCount === 3 &&
+    value.value.length === 9
+  );
+};
+
+/**
+ * 列優先2次元配列から `Mat3` のインスタンスを得る
+ * @param columnMajor 列優先2次元配列
+ * @returns 行列のインスタンス
+ * @throws ValidationError 引数が不正、または3x3ではない
+ */
+export const fromColumnMajor = (
+  columnMajor: ReadonlyArray<ReadonlyArray<number>>,
+): Mat3 => {
+  if (!is2dNumberArray(columnMajor)) {
+    throw new ValidationError(
+      "Invalid matrix format: The input must be a 2D array where all elements are numbers.",
+      { cause: { reason: "not2dNumberArray", value: columnMajor } },
+    );
+  }
+  if (columnMajor.length !== 3 || !columnMajor.every(col => col.length === 3)) {
+    throw new ValidationError("Input must be a 3x3 matrix", {
+      cause: { reason: "sizeMismatch", value: columnMajor },
+    });
+  }
+  return fMat.init(columnMajor.flat(), 3, 3);
+};
+
+/**
+ * 行優先2次元配列から `Mat3` のインスタンスを得る
+ * @param rowMajor 行優先2次元配列
+ * @returns 行列のインスタンス
+ * @throws ValidationError 引数が不正、または3x3ではない
+ */
+export const fromRowMajor = (rowMajor: number[][]): Mat3 => {
+  if (!is2dNumberArray(rowMajor)) {
+    throw new ValidationError(
+      "Invalid matrix format: The input must be a 2D array where all elements are numbers.",
+      { cause: { reason: "not2dNumberArray", value: rowMajor } },
+    );
+  }
+  if (rowMajor.length !== 3 || !rowMajor.every(row => row.length === 3)) {
+    throw new ValidationError("Input must be a 3x3 matrix", {
+      cause: { reason: "sizeMismatch", value: rowMajor },
+    });
+  }
+  const [r0, r1, r2] = rowMajor;
+  return fMat.init(
+    [r0[0], r1[0], r2[0], r0[1], r1[1], r2[1], r0[2], r1[2], r2[2]],
+    3,
+    3,
+  );
+};
+
+export const getClone = (matrix: Mat3): Mat3 => {
+  return { ...matrix, value: Float32Array.from(matrix.value) };
+};
+
+export const getIdentity = (): Mat3 => {
+  return fMat.init([1, 0, 0, 0, 1, 0, 0, 0, 1], 3, 3);
+};
+
+export const toRowMajorArray = (matrix: Mat3): number[] => {
+  const v = matrix.value;
+  return [v[0], v[3], v[6], v[1], v[4], v[7], v[2], v[5], v[8]];
+};
+
+export const valueAt = (
+  matrix: Mat3,
+  rowIndex: number,
+  columnIndex: number,
+): number => {
+  return fMat.valueAt(matrix, rowIndex, columnIndex);
+};
+
+export const multiply = (a: Mat3, b: Mat3): Mat3 => {
+  const x = a.value;
+  const y = b.value;
+  const result = new Float64Array(9);
+
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      let sum = 0;
+      for (let k = 0; k < 3; k++) {
+        sum += x[row + k * 3] * y[k + col * 3];
+      }
+      result[row + col * 3] = sum;
+    }
+  }
+
+  return fMat.init(result, 3, 3);
+};
+
+/**
+ * 行列とベクトルの積 `matrix * vector` を求める
+ * @param matrix 左辺値
+ * @param vector 右辺値（列ベクトルとして扱う）
+ */
+export const multiplyVec3 = (matrix: Mat3, vector: vec3.Vec3): vec3.Vec3 => {
+  const m = matrix.value;
+  const [x, y, z] = vector.value;
+  return vec3.init([
+    m[0] * x + m[3] * y + m[6] * z,
+    m[1] * x + m[4] * y + m[7] * z,
+    m[2] * x + m[5] * y + m[8] * z,
+  ]);
+};
+
+/**
+ * 転置行列を返す
+ * @param matrix
+ */
+export const transpose = (matrix: Mat3): Mat3 => {
+  const v = matrix.value;
+  return fMat.init(
+    [v[0], v[3], v[6], v[1], v[4], v[7], v[2], v[5], v[8]],
+    3,
+    3,
+  );
+};
+
+/**
+ * 余因子展開で行列式を求める
+ * @param matrix
+ */
+export const determinant = (matrix: Mat3): number => {
+  const [a00, a10, a20, a01, a11, a21, a02, a12, a22] = matrix.value;
+  return (
+    a00 * (a11 * a22 - a12 * a21) -
+    a01 * (a10 * a22 - a12 * a20) +
+    a02 * (a10 * a21 - a11 * a20)
+  );
+};
+
+/**
+ * 余因子行列を用いて逆行列を求める
+ * @param matrix 正則行列
+ * @throws SingularMatrixError 行列式が0
+ */
+export const inverse = (matrix: Mat3): Mat3 => {
+  const [a00, a10, a20, a01, a11, a21, a02, a12, a22] = matrix.value;
+
+  // 余因子
+  const c00 = a11 * a22 - a12 * a21;
+  const c01 = a12 * a20 - a10 * a22;
+  const c02 = a10 * a21 - a11 * a20;
+
+  const det = a00 * c00 + a01 * c01 + a02 * c02;
+  if (det === 0 || !Number.isFinite(det)) {
+    throw new SingularMatrixError({ cause: { value: matrix } });
+  }
+  const invDet = 1 / det;
+
+  // 列優先で並べる (余因子行列の転置 / det)
+  return fMat.init(
+    [
+      c00 * invDet,
+      c01 * invDet,
+      c02 * invDet,
+      (a02 * a21 - a01 * a22) * invDet,
+      (a00 * a22 - a02 * a20) * invDet,
+      (a01 * a20 - a00 * a21) * invDet,
+      (a01 * a12 - a02 * a11) * invDet,
+      (a02 * a10 - a00 * a12) * invDet,
+      (a00 * a11 - a01 * a10) * invDet,
+    ],
+    3,
+    3,
+  );
+};
+
+export const equals = (
+  a: Mat3,
+  b: Mat3,
+  precisionExponent = Infinity,
+): boolean => {
+  return fMat.equals(a, b, precisionExponent);
+};
+
+export const toString = (matrix: Mat3): string => {
+  const v = toRowMajorArray(matrix);
+  return [v.slice(0, 3), v.slice(3, 6), v.slice(6, 9)]
+    .map(row => row.map(n => n.toFixed(3)).join("\t"))
+    .join("\n");
+};
+
+// 2D 平行移動行列 (3x3)
+export const getTranslation = (x: number, y: number): Mat3 => {
+  return fMat.init([1, 0, 0, 0, 1, 0, x, y, 1], 3, 3);
+};
+
+// 2D 回転行列 (3x3)。反時計回りを正とする
+export const getRotate = (rad: number): Mat3 => {
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return fMat.init([cos, sin, 0, -sin, cos, 0, 0, 0, 1], 3, 3);
+};
+
+// 2D 拡大縮小行列 (3x3)
+export const getScale = (x: number, y: number): Mat3 => {
+  return fMat.init([x, 0, 0, 0, y, 0, 0, 0, 1], 3, 3);
+};
+
+/**
+ * `Mat4` の左上3x3を取り出す
+ * @param matrix
+ */
+export const fromMat4 = (matrix: Mat4): Mat3 => {
+  const v = matrix.value;
+  return fMat.init(
+    [v[0], v[1], v[2], v[4], v[5], v[6], v[8], v[9], v[10]],
+    3,
+    3,
+  );
+};
+
+/**
+ * モデルビュー行列から法線行列（左上3x3の逆転置行列）を求める\
+ * 非一様スケールを含む変換でも法線が面に垂直なまま保たれる
+ * @param matrix モデルビュー行列
+ * @throws SingularMatrixError 左上3x3が正則でない
+ */
+export const normalFromMat4 = (matrix: Mat4): Mat3 => {
+  return transpose(inverse(fromMat4(matrix)));
+};
+
+/**
+ * 対称行列の固有値と固有ベクトルを、巡回ヤコビ法で求める\
+ * `f64Mat.eigSymmetric` と同じ計算を、3x3 に限定して汎用行列を介さずに行う
+ * @param matrix 対称行列。下三角部分のみを参照し、上三角部分は無視する
+ * @param options 収束判定の許容誤差と、反復の最大回数
+ * @returns 降順に並んだ固有値と、i 列目が `values[i]` に対応する単位固有ベクトルである直交行列
+ * @throws ConvergenceError `maxIterations` 回の反復で収束しなかった
+ */
+export const eigSymmetric = (
+  matrix: Mat3,
+  options: EigenOptions = {},
+): { values: [number, number, number]; vectors: Mat3 } => {
+  const tolerance = options.tolerance ?? 1e-14;
+  const maxIterations = options.maxIterations ?? 50;
+  const m = matrix.value;
+  // 倍精度で計算する。a は対称なので下三角部分から作る
+  const a = [m[0], m[1], m[2], m[1], m[4], m[5], m[2], m[5], m[8]];
+  const v = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  const norm = Math.hypot(...a);
+
+  for (let iteration = 0; ; iteration++) {
+    const off = Math.hypot(a[3], a[6], a[7]) * Math.SQRT2;
+    if (off <= tolerance * norm) break;
+    if (iteration === maxIterations) {
+      throw new ConvergenceError(maxIterations, { cause: { value: matrix } });
+    }
+
+    for (const [p, q] of [
+      [0, 1],
+      [0, 2],
+      [1, 2],
+    ]) {
+      const apq = a[q * 3 + p];
+      if (apq === 0) continue;
+      const theta = (a[q * 3 + q] - a[p * 3 + p]) / (2 * apq);
+      const t =
+        Math.sign(theta || 1) / (Math.abs(theta) + Math.hypot(theta, 1));
+      const c = 1 / Math.hypot(t, 1);
+      const s = t * c;
+
+      for (let k = 0; k < 3; k++) {
+        const akp = a[p * 3 + k];
+        const akq = a[q * 3 + k];
+        a[p * 3 + k] = c * akp - s * akq;
+        a[q * 3 + k] = s * akp + c * akq;
+        const vkp = v[p * 3 + k];
+        const vkq = v[q * 3 + k];
+        v[p * 3 + k] = c * vkp - s * vkq;
+        v[q * 3 + k] = s * vkp + c * vkq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[k * 3 + p];
+        const aqk = a[k * 3 + q];
+        a[k * 3 + p] = c * apk - s * aqk;
+        a[k * 3 + q] = s * apk + c * aqk;
+      }
+      a[q * 3 + p] = 0;
+      a[p * 3 + q] = 0;
+    }
+  }
+
+  const order = [0, 1, 2].sort((i, j) => a[j * 4] - a[i * 4]);
+  return {
+    values: order.map(i => a[i * 4]) as [number, number, number],
+    vectors: fMat.init(
+      order.flatMap(i => v.slice(i * 3, i * 3 + 3)),
+      3,
+      3,
+    ),
+  };
+};
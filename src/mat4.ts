@@ -1,23 +1,101 @@
 import { is2dNumberArray } from "@/common";
 import * as fMat from "./f32Mat";
 import { ValidationError } from "./errors";
+import * as mat4Out from "./mat4Out";
+import * as quat from "./quat";
+import * as vec3 from "./vec3";
+import * as vec4 from "./vec4";
 
 export type Mat4 = fMat.F32Mat<4, 4>;
 
-/*
-// TODO
-export const isMat4 = (value: unknown): value is mat4 => {
+/**
+ * 射影行列が出力する、クリップ空間の深度の範囲
+ * - `"negativeOneToOne"` : `[-1, 1]` 。 WebGL (OpenGL) の規約
+ * - `"zeroToOne"` : `[0, 1]` 。 WebGPU, Direct3D, Vulkan の規約
+ */
+export type DepthRange = "negativeOneToOne" | "zeroToOne";
+
+/**
+ * 座標系の向き
+ * - `"rightHanded"` : 右手系。カメラは -Z を向く。 WebGL (OpenGL) の慣習
+ * - `"leftHanded"` : 左手系。カメラは +Z を向く。 Direct3D や一部の DCC ツールの慣習
+ */
+export type Handedness = "rightHanded" | "leftHanded";
+
+/**
+ * 射影行列を生成する関数に共通の設定
+ */
+export type ProjectionOptions = {
+  /** 深度の範囲。既定値は `"negativeOneToOne"` (reverse-Z の射影では `"zeroToOne"`) */
+  depthRange?: DepthRange;
+  /** 座標系の向き。既定値は `"rightHanded"` */
+  handedness?: Handedness;
 };
 
-// TODO
+/**
+ * 視点変換行列を生成する関数の設定
+ */
+export type ViewOptions = {
+  /** 座標系の向き。既定値は `"rightHanded"` */
+  handedness?: Handedness;
+};
+
+/**
+ * `decompose` の結果。`compose(translation, rotation, scale)` で元の行列に戻る
+ */
+export type Decomposition = {
+  translation: vec3.Vec3;
+  /** 単位クォータニオン */
+  rotation: quat.Quat;
+  /** 鏡映を含む場合、x 成分が負になる */
+  scale: vec3.Vec3;
+  /** 左上3x3の行列式が負であり、鏡映を含む */
+  hasNegativeScale: boolean;
+  /** 軸が直交しておらず、せん断を含む。この場合 `compose` で元の行列には戻らない */
+  hasShear: boolean;
+};
+
+/** 軸同士のなす角の余弦の絶対値がこれより大きい場合、せん断を含むとみなす */
+const SHEAR_EPSILON = 1e-5;
+
+/**
+ * 引数が`Mat4`型を満たしており、論理的に構造が破綻していないか確かめる
+ * @param value 検査対象
+ */
+export const isMat4 = (value: unknown): value is Mat4 => {
+  return (
+    fMat.isF32Mat(value) &&
+    value.rowCount === 4 &&
+    value.colCount === 4 &&
+    value.value.length === 16
+  );
+};
+
+/**
+ * 列優先2次元配列から `Mat4` のインスタンスを得る
+ * @param columnMajor 列優先2次元配列
+ * @returns 行列のインスタンス
+ * @throws ValidationError 引数が不正、または4x4ではない
+ */
 export const fromColumnMajor = (
   columnMajor: ReadonlyArray<ReadonlyArray<number>>,
-): mat4 => {
+): Mat4 => {
+  if (!is2dNumberArray(columnMajor)) {
+    throw new ValidationError(
+      "Invalid matrix format: The input must be a 2D array where all elements are numbers.",
+      { cause: { reason: "not2dNumberArray", value: columnMajor } },
+    );
+  }
+  if (columnMajor.length !== 4 || !columnMajor.every(col => col.length === 4)) {
+    throw new ValidationError("Input must be a 4x4 matrix", {
+      cause: { reason: "sizeMismatch", value: columnMajor },
+    });
+  }
+  return fMat.init(columnMajor.flat(), 4, 4);
 };
-*/
 
 /**
- * 行優先配列から、列優先行列である`f64Mat`のインスタンスを得る
+ * 行優先配列から、列優先行列である`Mat4`のインスタンスを得る
  */
 export const fromRowMajor = (rowMajor: number[][]): Mat4 => {
   if (!is2dNumberArray(rowMajor)) {
@@ -27,19 +105,17 @@ export const fromRowMajor = (rowMajor: number[][]): Mat4 => {
     );
   }
   if (!rowMajor.every(row => row.length === rowMajor[0].length)) {
-    throw new ValidationError(
-      "All rows must have the same number of columns",
-      { cause: { reason: "columnsHaveDifferentRowCounts", value: rowMajor }, }
-    );
+    throw new ValidationError("All rows must have the same number of columns", {
+      cause: { reason: "columnsHaveDifferentRowCounts", value: rowMajor },
+    });
   }
   const rowCount = rowMajor.length;
   const colCount = rowMajor[0].length;
 
   if (rowCount !== 4 || colCount !== 4) {
-    throw new ValidationError(
-      "Input must be a 4x4 matrix",
-      { cause: { reason: "sizeMismatch", value: rowMajor } }
-    );
+    throw new ValidationError("Input must be a 4x4 matrix", {
+      cause: { reason: "sizeMismatch", value: rowMajor },
+    });
   }
   const value = new Float64Array(rowCount * colCount);
 
@@ -51,17 +127,21 @@ export const fromRowMajor = (rowMajor: number[][]): Mat4 => {
   return fMat.init(value, 4, 4);
 };
 
+/**
+ * 全ての値が0の行列を作成する。各演算の結果の書き込み先として使う
+ *
+ * @internal
+ */
+const create = (): Mat4 => {
+  return fMat.init(new Float32Array(16), 4, 4);
+};
+
 export const getClone = (matrix: Mat4): Mat4 => {
   return { ...matrix, value: Float32Array.from(matrix.value) };
 };
 
 export const getIdentity = (): Mat4 => {
-  const value = new Float32Array(16);
-  value[0] = 1;
-  value[5] = 1;
-  value[10] = 1;
-  value[15] = 1;
-  return fMat.init(value, 4, 4);
+  return mat4Out.getIdentity(create());
 };
 
 export const toRowMajorArray = (matrix: Mat4): number[] => {
@@ -95,101 +175,70 @@ export const valueAt = (
 };
 
 export const add = (a: Mat4, b: Mat4): Mat4 => {
-  const x = a.value;
-  const y = b.value;
-  return fMat.init(
-    [
-      x[0] + y[0],
-      x[1] + y[1],
-      x[2] + y[2],
-      x[3] + y[3],
-      x[4] + y[4],
-      x[5] + y[5],
-      x[6] + y[6],
-      x[7] + y[7],
-      x[8] + y[8],
-      x[9] + y[9],
-      x[10] + y[10],
-      x[11] + y[11],
-      x[12] + y[12],
-      x[13] + y[13],
-      x[14] + y[14],
-      x[15] + y[15],
-    ],
-    4,
-    4,
-  );
+  return mat4Out.add(create(), a, b);
 };
 
 export const subtract = (a: Mat4, b: Mat4): Mat4 => {
-  const x = a.value;
-  const y = b.value;
-  return fMat.init(
-    [
-      x[0] - y[0],
-      x[1] - y[1],
-      x[2] - y[2],
-      x[3] - y[3],
-      x[4] - y[4],
-      x[5] - y[5],
-      x[6] - y[6],
-      x[7] - y[7],
-      x[8] - y[8],
-      x[9] - y[9],
-      x[10] - y[10],
-      x[11] - y[11],
-      x[12] - y[12],
-      x[13] - y[13],
-      x[14] - y[14],
-      x[15] - y[15],
-    ],
-    4,
-    4,
-  );
+  return mat4Out.subtract(create(), a, b);
 };
 
 export const multiplyScalar = (matrix: Mat4, scalar: number): Mat4 => {
-  const x = matrix.value;
-  return fMat.init(
-    [
-      x[0] * scalar,
-      x[1] * scalar,
-      x[2] * scalar,
-      x[3] * scalar,
-      x[4] * scalar,
-      x[5] * scalar,
-      x[6] * scalar,
-      x[7] * scalar,
-      x[8] * scalar,
-      x[9] * scalar,
-      x[10] * scalar,
-      x[11] * scalar,
-      x[12] * scalar,
-      x[13] * scalar,
-      x[14] * scalar,
-      x[15] * scalar,
-    ],
-    4,
-    4,
-  );
+  return mat4Out.multiplyScalar(create(), matrix, scalar);
 };
 
 export const multiply = (a: Mat4, b: Mat4): Mat4 => {
-  const x = a.value;
-  const y = b.value;
-  const result = new Float64Array(16);
-
-  for (let row = 0; row < 4; row++) {
-    for (let col = 0; col < 4; col++) {
-      let sum = 0;
-      for (let k = 0; k < 4; k++) {
-        sum += x[row + k * 4] * y[k + col * 4];
-      }
-      result[row + col * 4] = sum;
-    }
-  }
+  return mat4Out.multiply(create(), a, b);
+};
 
-  return fMat.init(result, 4, 4);
+/**
+ * 行列とベクトルの積 `matrix * vector` を求める
+ * @param matrix 左辺値
+ * @param vector 右辺値（列ベクトルとして扱う）
+ */
+export const multiplyVec4 = (matrix: Mat4, vector: vec4.Vec4): vec4.Vec4 => {
+  const m = matrix.value;
+  const [x, y, z, w] = vector.value;
+  return vec4.init([
+    m[0] * x + m[4] * y + m[8] * z + m[12] * w,
+    m[1] * x + m[5] * y + m[9] * z + m[13] * w,
+    m[2] * x + m[6] * y + m[10] * z + m[14] * w,
+    m[3] * x + m[7] * y + m[11] * z + m[15] * w,
+  ]);
+};
+
+/**
+ * 点を変換する。`w = 1` の同次座標として扱い、結果を `w` で割って3次元に戻す
+ * @param matrix 変換行列
+ * @param point 変換する点
+ * @remarks 射影行列を与えた場合、透視除算済みの座標が得られる
+ */
+export const transformPoint = (matrix: Mat4, point: vec3.Vec3): vec3.Vec3 => {
+  const m = matrix.value;
+  const [x, y, z] = point.value;
+  const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+  return vec3.init([
+    (m[0] * x + m[4] * y + m[8] * z + m[12]) / w,
+    (m[1] * x + m[5] * y + m[9] * z + m[13]) / w,
+    (m[2] * x + m[6] * y + m[10] * z + m[14]) / w,
+  ]);
+};
+
+/**
+ * 方向ベクトルを変換する。`w = 0` の同次座標として扱うため、平行移動の影響を受けない
+ * @param matrix 変換行列
+ * @param direction 変換する方向ベクトル
+ */
+export const transformDirection = (
+  matrix: Mat4,
+  direction: vec3.Vec3,
+): vec3.Vec3 => {
+  const m = matrix.value;
+  const [x, y, z] = direction.value;
+  return vec3.init([
+    m[0] * x + m[4] * y + m[8] * z,
+    m[1] * x + m[5] * y + m[9] * z,
+    m[2] * x + m[6] * y + m[10] * z,
+  ]);
 };
 
 export const equals = (
@@ -205,19 +254,71 @@ export const sameSize = (a: Mat4, b: Mat4): boolean => {
 };
 
 /**
- * 逆行列を返す。 FIX ME
+ * 転置行列を返す
  * @param matrix
  */
+export const transpose = (matrix: Mat4): Mat4 => {
+  return mat4Out.transpose(create(), matrix);
+};
+
+/**
+ * 行列をその場で転置する
+ * @param matrix 値が書き換えられる
+ * @returns 引数の `matrix`
+ */
+export const transposeInPlace = (matrix: Mat4): Mat4 => {
+  return mat4Out.transpose(matrix, matrix);
+};
+
+/**
+ * 逆行列を返す
+ * @param matrix 正則行列
+ * @throws SingularMatrixError 行列式が0、または有限の値でない
+ * @see invertAffine アフィン変換であることが分かっている場合
+ * @see invertRigid 回転と平行移動のみであることが分かっている場合
+ */
 export const inverse = (matrix: Mat4): Mat4 => {
-  // FIX ME 一応動作するが、明らかに最適化可能
-  return fMat.inverse(matrix);
+  return mat4Out.inverse(create(), matrix);
+};
+
+/**
+ * アフィン変換行列の逆行列を返す。最下行が `[0, 0, 0, 1]` であることを前提とする
+ * @param matrix
+ * @throws SingularMatrixError 左上3x3の行列式が0、または有限の値でない
+ */
+export const invertAffine = (matrix: Mat4): Mat4 => {
+  return mat4Out.invertAffine(create(), matrix);
 };
 
 /**
- * 行列式を求める TODO
- * @param matrix 
-export const determinant = (matrix: mat4): number => {
-}; */
+ * 剛体変換（回転と平行移動のみ）の逆行列を返す
+ * @param matrix
+ */
+export const invertRigid = (matrix: Mat4): Mat4 => {
+  return mat4Out.invertRigid(create(), matrix);
+};
+
+/**
+ * 余因子展開を展開した式で行列式を求める
+ * @param matrix
+ */
+export const determinant = (matrix: Mat4): number => {
+  const a = matrix.value;
+  // 上2行と下2行それぞれの 2x2 小行列式の積の和 (ラプラス展開)
+  const b00 = a[0] * a[5] - a[1] * a[4];
+  const b01 = a[0] * a[6] - a[2] * a[4];
+  const b02 = a[0] * a[7] - a[3] * a[4];
+  const b03 = a[1] * a[6] - a[2] * a[5];
+  const b04 = a[1] * a[7] - a[3] * a[5];
+  const b05 = a[2] * a[7] - a[3] * a[6];
+  const b06 = a[8] * a[13] - a[9] * a[12];
+  const b07 = a[8] * a[14] - a[10] * a[12];
+  const b08 = a[8] * a[15] - a[11] * a[12];
+  const b09 = a[9] * a[14] - a[10] * a[13];
+  const b10 = a[9] * a[15] - a[11] * a[13];
+  const b11 = a[10] * a[15] - a[11] * a[14];
+  return b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+};
 
 export const toString = (matrix: Mat4): string => {
   return toRowMajor2dArray(matrix)
@@ -227,83 +328,33 @@ export const toString = (matrix: Mat4): string => {
 
 // 平行移動行列 (4x4)
 export const getTranslation = (x: number, y: number, z: number): Mat4 => {
-  return fMat.init([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, x, y, z, 1], 4, 4);
+  return mat4Out.getTranslation(create(), x, y, z);
 };
 
 // X軸回転行列 (4x4)
 export const getRotateX = (rad: number): Mat4 => {
-  const cos = Math.cos(rad);
-  const sin = Math.sin(rad);
-  return fMat.init(
-    [1, 0, 0, 0, 0, cos, -sin, 0, 0, sin, cos, 0, 0, 0, 0, 1],
-    4,
-    4,
-  );
+  return mat4Out.getRotateX(create(), rad);
 };
 
 // Y軸回転行列 (4x4)
 export const getRotateY = (rad: number): Mat4 => {
-  const cos = Math.cos(rad);
-  const sin = Math.sin(rad);
-  return fMat.init(
-    [cos, 0, sin, 0, 0, 1, 0, 0, -sin, 0, cos, 0, 0, 0, 0, 1],
-    4,
-    4,
-  );
+  return mat4Out.getRotateY(create(), rad);
 };
 
 // Z軸回転行列 (4x4)
 export const getRotateZ = (rad: number): Mat4 => {
-  const cos = Math.cos(rad);
-  const sin = Math.sin(rad);
-  return fromRowMajor([
-    [cos, -sin, 0, 0],
-    [sin, cos, 0, 0],
-    [0, 0, 1, 0],
-    [0, 0, 0, 1],
-  ]);
+  return mat4Out.getRotateZ(create(), rad);
 };
 
 export const getRotate = (
   rad: number,
   axis: [number, number, number],
 ): Mat4 => {
-  const cos = Math.cos(rad);
-  const sin = Math.sin(rad);
-  const x = axis[0];
-  const y = axis[1];
-  const z = axis[2];
-  const xx = x * x;
-  const yy = y * y;
-  const zz = z * z;
-  const xy = x * y;
-  const yz = y * z;
-  const zx = z * x;
-  const oneMinusCos = 1 - cos;
-
-  return fMat.init(
-    [
-      xx * oneMinusCos + cos,
-      xy * oneMinusCos + z * sin,
-      zx * oneMinusCos - y * sin,
-      0,
-      xy * oneMinusCos - z * sin,
-      yy * oneMinusCos + cos,
-      yz * oneMinusCos + x * sin,
-      0,
-      zx * oneMinusCos + y * sin,
-      yz * oneMinusCos - x * sin,
-      zz * oneMinusCos + cos,
-      0,
-      0,
-    ],
-    4,
-    4,
-  );
+  return mat4Out.getRotate(create(), rad, axis);
 };
 
 export const getScale = (x: number, y: number, z: number): Mat4 => {
-  return fMat.init([x, 0, 0, 0, 0, y, 0, 0, 0, 0, z, 0, 0, 0, 0, 1], 4, 4);
+  return mat4Out.getScale(create(), x, y, z);
 };
 
 /**
@@ -312,95 +363,279 @@ export const getScale = (x: number, y: number, z: number): Mat4 => {
  * @param eye
  * @param target
  * @param up
+ * @param options 既定では右手系で、カメラは -Z を向く。左手系ではカメラは +Z を向く
  * @returns
  */
 export const getLookAt = (
   eye: [number, number, number],
   target: [number, number, number],
   up: [number, number, number],
+  options: ViewOptions = {},
 ): Mat4 => {
-  const z = [eye[0] - target[0], eye[1] - target[1], eye[2] - target[2]];
-  const zLen = Math.sqrt(z[0] * z[0] + z[1] * z[1] + z[2] * z[2]);
-  z[0] /= zLen;
-  z[1] /= zLen;
-  z[2] /= zLen;
-
-  const x = [
-    up[1] * z[2] - up[2] * z[1],
-    up[2] * z[0] - up[0] * z[2],
-    up[0] * z[1] - up[1] * z[0],
-  ];
-  const xLen = Math.sqrt(x[0] * x[0] + x[1] * x[1] + x[2] * x[2]);
-  x[0] /= xLen;
-  x[1] /= xLen;
-  x[2] /= xLen;
-
-  const y = [
-    z[1] * x[2] - z[2] * x[1],
-    z[2] * x[0] - z[0] * x[2],
-    z[0] * x[1] - z[1] * x[0],
-  ];
-
-  // 列優先で並べる
-  return fMat.init(
-    [
-      x[0],
-      y[0],
-      z[0],
-      0,
-      x[1],
-      y[1],
-      z[1],
-      0,
-      x[2],
-      y[2],
-      z[2],
-      0,
-      -(x[0] * eye[0] + x[1] * eye[1] + x[2] * eye[2]),
-      -(y[0] * eye[0] + y[1] * eye[1] + y[2] * eye[2]),
-      -(z[0] * eye[0] + z[1] * eye[1] + z[2] * eye[2]),
-      1,
-    ],
-    4,
-    4,
-  );
+  return mat4Out.getLookAt(create(), eye, target, up, options);
 };
 
 /**
- * 透視射影行列を生成する
+ * 透視射影行列を生成する。深度テストには `gl.LESS` を用いる
  * @param fovY 垂直方向の視野角（ラジアン）
  * @param aspect アスペクト比（横 / 縦）
  * @param near 最近接距離（0 より大きい）
  * @param far 最遠距離（near より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
  */
 export const getPerspective = (
   fovY: number,
   aspect: number,
   near: number,
   far: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  return mat4Out.getPerspective(create(), fovY, aspect, near, far, options);
+};
+
+/**
+ * 深度を反転させた (reverse-Z) 透視射影行列を生成する。近平面の深度が 1、遠平面の深度が 0 (`negativeOneToOne` では -1) になる\
+ * 深度テストには `gl.GREATER` を用い、深度バッファは 0 でクリアする
+ * @param fovY 垂直方向の視野角（ラジアン）
+ * @param aspect アスペクト比（横 / 縦）
+ * @param near 最近接距離（0 より大きい）
+ * @param far 最遠距離（near より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[0, 1]` (理由は `mat4Out.getPerspectiveReverseZ` を参照)
+ */
+export const getPerspectiveReverseZ = (
+  fovY: number,
+  aspect: number,
+  near: number,
+  far: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  return mat4Out.getPerspectiveReverseZ(
+    create(),
+    fovY,
+    aspect,
+    near,
+    far,
+    options,
+  );
+};
+
+/**
+ * 遠平面を無限遠に置いた透視射影行列を生成する\
+ * 深度テストには `gl.LESS` を用い、深度バッファは 1 でクリアする
+ * @param fovY 垂直方向の視野角（ラジアン）
+ * @param aspect アスペクト比（横 / 縦）
+ * @param near 最近接距離（0 より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
+ */
+export const getPerspectiveInfinite = (
+  fovY: number,
+  aspect: number,
+  near: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  return mat4Out.getPerspectiveInfinite(create(), fovY, aspect, near, options);
+};
+
+/**
+ * 遠平面を無限遠に置き、深度を反転させた透視射影行列を生成する\
+ * 深度テストには `gl.GREATER` を用い、深度バッファは 0 でクリアする
+ * @param fovY 垂直方向の視野角（ラジアン）
+ * @param aspect アスペクト比（横 / 縦）
+ * @param near 最近接距離（0 より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[0, 1]` (理由は `mat4Out.getPerspectiveReverseZ` を参照)
+ */
+export const getPerspectiveInfiniteReverseZ = (
+  fovY: number,
+  aspect: number,
+  near: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  return mat4Out.getPerspectiveInfiniteReverseZ(
+    create(),
+    fovY,
+    aspect,
+    near,
+    options,
+  );
+};
+
+/**
+ * 正射影行列を生成する
+ * @param left 左端の x 座標
+ * @param right 右端の x 座標
+ * @param bottom 下端の y 座標
+ * @param top 上端の y 座標
+ * @param near 最近接距離
+ * @param far 最遠距離
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
+ */
+export const getOrthographic = (
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+  options: ProjectionOptions = {},
 ): Mat4 => {
-  const f = 1.0 / Math.tan(fovY / 2);
-  const nf = 1 / (near - far);
+  return mat4Out.getOrthographic(
+    create(),
+    left,
+    right,
+    bottom,
+    top,
+    near,
+    far,
+    options,
+  );
+};
 
-  // 列優先で並べる
+/**
+ * 近平面の範囲を指定して透視射影行列を生成する。視点が中心にない (off-axis) 射影に使う
+ * @param left 近平面の左端の x 座標
+ * @param right 近平面の右端の x 座標
+ * @param bottom 近平面の下端の y 座標
+ * @param top 近平面の上端の y 座標
+ * @param near 最近接距離（0 より大きい）
+ * @param far 最遠距離（near より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
+ */
+export const getFrustum = (
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  return mat4Out.getFrustum(
+    create(),
+    left,
+    right,
+    bottom,
+    top,
+    near,
+    far,
+    options,
+  );
+};
+
+/**
+ * 射影行列が出力する深度の範囲を変換する\
+ * WebGL 向けに作った射影行列を WebGPU で使う場合などに用いる
+ * @param matrix 射影行列
+ * @param from `matrix` の深度の範囲
+ * @param to 変換後の深度の範囲
+ */
+export const convertDepthRange = (
+  matrix: Mat4,
+  from: DepthRange,
+  to: DepthRange,
+): Mat4 => {
+  return mat4Out.convertDepthRange(create(), matrix, from, to);
+};
+
+/**
+ * 変換行列の右手系・左手系を入れ替える\
+ * 左手系のツールから読み込んだモデル行列などを、右手系で扱えるようにする (逆も同様)
+ * @param matrix モデル行列やビュー行列などの変換行列
+ */
+export const convertHandedness = (matrix: Mat4): Mat4 => {
+  return mat4Out.convertHandedness(create(), matrix);
+};
+
+/**
+ * アフィン変換行列を平行移動・回転・拡大縮小に分解する。最下行が `[0, 0, 0, 1]` であることを前提とする\
+ * 軸をグラム・シュミットの方法で直交化するため、せん断を含む場合も回転は正規直交になる
+ * @param matrix
+ * @returns スケールが0の軸があると、回転の成分が NaN になる
+ */
+export const decompose = (matrix: Mat4): Decomposition => {
+  const m = matrix.value;
+  const x = vec3.init([m[0], m[1], m[2]]);
+  let y = vec3.init([m[4], m[5], m[6]]);
+  let z = vec3.init([m[8], m[9], m[10]]);
+
+  const sx = vec3.length(x);
+  const yLength = vec3.length(y);
+  const zLength = vec3.length(z);
+  const xAxis = vec3.scale(x, 1 / sx);
+
+  const shearXY = vec3.dot(xAxis, y);
+  y = vec3.subtract(y, vec3.scale(xAxis, shearXY));
+  const sy = vec3.length(y);
+  const yAxis = vec3.scale(y, 1 / sy);
+
+  const shearXZ = vec3.dot(xAxis, z);
+  const shearYZ = vec3.dot(yAxis, z);
+  z = vec3.subtract(
+    z,
+    vec3.add(vec3.scale(xAxis, shearXZ), vec3.scale(yAxis, shearYZ)),
+  );
+  const sz = vec3.length(z);
+  const zAxis = vec3.scale(z, 1 / sz);
+
+  // 元の軸の長さで割り、軸同士のなす角の余弦として比べる
+  const hasShear =
+    Math.abs(shearXY) > SHEAR_EPSILON * yLength ||
+    Math.abs(shearXZ) > SHEAR_EPSILON * zLength ||
+    Math.abs(shearYZ) > SHEAR_EPSILON * zLength;
+
+  // 鏡映は回転で表せないため、x 軸のスケールを負にして吸収する
+  const hasNegativeScale = vec3.dot(vec3.cross(xAxis, yAxis), zAxis) < 0;
+  const sign = hasNegativeScale ? -1 : 1;
+  const [r00, r10, r20] = vec3.scale(xAxis, sign).value;
+  const [r01, r11, r21] = yAxis.value;
+  const [r02, r12, r22] = zAxis.value;
+
+  return {
+    translation: vec3.init([m[12], m[13], m[14]]),
+    rotation: quat.normalize(
+      quat.fromMat3(
+        fMat.init([r00, r10, r20, r01, r11, r21, r02, r12, r22], 3, 3),
+      ),
+    ),
+    scale: vec3.init([sign * sx, sy, sz]),
+    hasNegativeScale,
+    hasShear,
+  };
+};
+
+/**
+ * 平行移動・回転・拡大縮小から変換行列を作成する\
+ * 拡大縮小、回転、平行移動の順に適用する行列 `T * R * S` になる
+ * @param translation
+ * @param rotation 単位クォータニオン
+ * @param scale
+ * @see decompose
+ */
+export const compose = (
+  translation: vec3.Vec3,
+  rotation: quat.Quat,
+  scale: vec3.Vec3,
+): Mat4 => {
+  const r = quat.toMat3(rotation).value;
+  const [sx, sy, sz] = scale.value;
+  const [tx, ty, tz] = translation.value;
   return fMat.init(
     [
-      f / aspect,
-      0,
-      0,
-      0,
+      r[0] * sx,
+      r[1] * sx,
+      r[2] * sx,
       0,
-      f,
+      r[3] * sy,
+      r[4] * sy,
+      r[5] * sy,
       0,
+      r[6] * sz,
+      r[7] * sz,
+      r[8] * sz,
       0,
-      0,
-      0,
-      (far + near) * nf,
-      -1,
-      0,
-      0,
-      2 * far * near * nf,
-      0,
+      tx,
+      ty,
+      tz,
+      1,
     ],
     4,
     4,
@@ -0,0 +1,955 @@
+import { SingularMatrixError } from "./errors";
+import type { DepthRange, Mat4, ProjectionOptions, ViewOptions } from "./mat4";
+
+/*
+ * `mat4` の各演算の、結果を呼び出し側が用意した行列 `out` に書き込む版。
+ * 毎フレーム大量の行列を生成するような場面で、GCの負荷を避けるために使う。
+ * どの関数も `out` を返し、`out` と引数に同じ行列を渡しても正しく動作する。
+ */
+
+/**
+ * 列優先で16個の値を書き込む
+ *
+ * @internal
+ */
+const setValues = (
+  out: Mat4,
+  m00: number,
+  m10: number,
+  m20: number,
+  m30: number,
+  m01: number,
+  m11: number,
+  m21: number,
+  m31: number,
+  m02: number,
+  m12: number,
+  m22: number,
+  m32: number,
+  m03: number,
+  m13: number,
+  m23: number,
+  m33: number,
+): Mat4 => {
+  const o = out.value;
+  o[0] = m00;
+  o[1] = m10;
+  o[2] = m20;
+  o[3] = m30;
+  o[4] = m01;
+  o[5] = m11;
+  o[6] = m21;
+  o[7] = m31;
+  o[8] = m02;
+  o[9] = m12;
+  o[10] = m22;
+  o[11] = m32;
+  o[12] = m03;
+  o[13] = m13;
+  o[14] = m23;
+  o[15] = m33;
+  return out;
+};
+
+/**
+ * `matrix` の値を `out` にコピーする
+ * @param out 書き込み先
+ * @param matrix コピー元
+ * @returns `out`
+ */
+export const copy = (out: Mat4, matrix: Mat4): Mat4 => {
+  out.value.set(matrix.value);
+  return out;
+};
+
+/**
+ * `out` を単位行列にする
+ * @param out 書き込み先
+ * @returns `out`
+ */
+export const getIdentity = (out: Mat4): Mat4 => {
+  return setValues(out, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+};
+
+/**
+ * `a + b` を `out` に書き込む
+ * @param out 書き込み先
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns `out`
+ */
+export const add = (out: Mat4, a: Mat4, b: Mat4): Mat4 => {
+  const o = out.value;
+  const x = a.value;
+  const y = b.value;
+  for (let i = 0; i < 16; i++) {
+    o[i] = x[i] + y[i];
+  }
+  return out;
+};
+
+/**
+ * `a - b` を `out` に書き込む
+ * @param out 書き込み先
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns `out`
+ */
+export const subtract = (out: Mat4, a: Mat4, b: Mat4): Mat4 => {
+  const o = out.value;
+  const x = a.value;
+  const y = b.value;
+  for (let i = 0; i < 16; i++) {
+    o[i] = x[i] - y[i];
+  }
+  return out;
+};
+
+/**
+ * スカラー倍した行列を `out` に書き込む
+ * @param out 書き込み先
+ * @param matrix 左辺値
+ * @param scalar 行列の全ての値に掛けられる値
+ * @returns `out`
+ */
+export const multiplyScalar = (
+  out: Mat4,
+  matrix: Mat4,
+  scalar: number,
+): Mat4 => {
+  const o = out.value;
+  const x = matrix.value;
+  for (let i = 0; i < 16; i++) {
+    o[i] = x[i] * scalar;
+  }
+  return out;
+};
+
+/**
+ * `a * b` を `out` に書き込む
+ * @param out 書き込み先
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns `out`
+ */
+export const multiply = (out: Mat4, a: Mat4, b: Mat4): Mat4 => {
+  const x = a.value;
+  const y = b.value;
+  const o = out.value;
+
+  // out === a の場合に備えて、a は先に全て読み出しておく
+  const a00 = x[0];
+  const a10 = x[1];
+  const a20 = x[2];
+  const a30 = x[3];
+  const a01 = x[4];
+  const a11 = x[5];
+  const a21 = x[6];
+  const a31 = x[7];
+  const a02 = x[8];
+  const a12 = x[9];
+  const a22 = x[10];
+  const a32 = x[11];
+  const a03 = x[12];
+  const a13 = x[13];
+  const a23 = x[14];
+  const a33 = x[15];
+
+  // out === b の場合でも、書き込む前に同じ列を読み出しているので問題ない
+  for (let col = 0; col < 4; col++) {
+    const b0 = y[col * 4];
+    const b1 = y[col * 4 + 1];
+    const b2 = y[col * 4 + 2];
+    const b3 = y[col * 4 + 3];
+    o[col * 4] = a00 * b0 + a01 * b1 + a02 * b2 + a03 * b3;
+    o[col * 4 + 1] = a10 * b0 + a11 * b1 + a12 * b2 + a13 * b3;
+    o[col * 4 + 2] = a20 * b0 + a21 * b1 + a22 * b2 + a23 * b3;
+    o[col * 4 + 3] = a30 * b0 + a31 * b1 + a32 * b2 + a33 * b3;
+  }
+
+  return out;
+};
+
+/**
+ * 転置行列を `out` に書き込む\
+ * `out` と `matrix` が同じ行列であれば、その場で転置する
+ * @param out 書き込み先
+ * @param matrix
+ * @returns `out`
+ */
+export const transpose = (out: Mat4, matrix: Mat4): Mat4 => {
+  const a = matrix.value;
+  return setValues(
+    out,
+    a[0],
+    a[4],
+    a[8],
+    a[12],
+    a[1],
+    a[5],
+    a[9],
+    a[13],
+    a[2],
+    a[6],
+    a[10],
+    a[14],
+    a[3],
+    a[7],
+    a[11],
+    a[15],
+  );
+};
+
+/**
+ * 余因子展開を展開した式で逆行列を求め、`out` に書き込む
+ * @param out 書き込み先
+ * @param matrix 正則行列
+ * @returns `out`
+ * @throws SingularMatrixError 行列式が0、または有限の値でない
+ *
+ * @remarks
+ * 掃き出し法と異なり、特異かどうかを閾値で判定しない。行列式が0に近い行列では、非常に大きな値を含む結果になる
+ */
+export const inverse = (out: Mat4, matrix: Mat4): Mat4 => {
+  const a = matrix.value;
+  const a00 = a[0];
+  const a01 = a[1];
+  const a02 = a[2];
+  const a03 = a[3];
+  const a10 = a[4];
+  const a11 = a[5];
+  const a12 = a[6];
+  const a13 = a[7];
+  const a20 = a[8];
+  const a21 = a[9];
+  const a22 = a[10];
+  const a23 = a[11];
+  const a30 = a[12];
+  const a31 = a[13];
+  const a32 = a[14];
+  const a33 = a[15];
+
+  // 2x2 小行列式
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  const det =
+    b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  if (det === 0 || !Number.isFinite(det)) {
+    throw new SingularMatrixError({ cause: { value: matrix } });
+  }
+  const invDet = 1 / det;
+
+  return setValues(
+    out,
+    (a11 * b11 - a12 * b10 + a13 * b09) * invDet,
+    (a02 * b10 - a01 * b11 - a03 * b09) * invDet,
+    (a31 * b05 - a32 * b04 + a33 * b03) * invDet,
+    (a22 * b04 - a21 * b05 - a23 * b03) * invDet,
+    (a12 * b08 - a10 * b11 - a13 * b07) * invDet,
+    (a00 * b11 - a02 * b08 + a03 * b07) * invDet,
+    (a32 * b02 - a30 * b05 - a33 * b01) * invDet,
+    (a20 * b05 - a22 * b02 + a23 * b01) * invDet,
+    (a10 * b10 - a11 * b08 + a13 * b06) * invDet,
+    (a01 * b08 - a00 * b10 - a03 * b06) * invDet,
+    (a30 * b04 - a31 * b02 + a33 * b00) * invDet,
+    (a21 * b02 - a20 * b04 - a23 * b00) * invDet,
+    (a11 * b07 - a10 * b09 - a12 * b06) * invDet,
+    (a00 * b09 - a01 * b07 + a02 * b06) * invDet,
+    (a31 * b01 - a30 * b03 - a32 * b00) * invDet,
+    (a20 * b03 - a21 * b01 + a22 * b00) * invDet,
+  );
+};
+
+/**
+ * アフィン変換行列の逆行列を求め、`out` に書き込む\
+ * 左上3x3の逆行列と平行移動成分だけを計算するので、`inverse` より高速
+ * @param out 書き込み先
+ * @param matrix 最下行が `[0, 0, 0, 1]` である行列。最下行は検査せず、読み飛ばす
+ * @returns `out`
+ * @throws SingularMatrixError 左上3x3の行列式が0、または有限の値でない
+ */
+export const invertAffine = (out: Mat4, matrix: Mat4): Mat4 => {
+  const a = matrix.value;
+  const m00 = a[0];
+  const m10 = a[1];
+  const m20 = a[2];
+  const m01 = a[4];
+  const m11 = a[5];
+  const m21 = a[6];
+  const m02 = a[8];
+  const m12 = a[9];
+  const m22 = a[10];
+  const tx = a[12];
+  const ty = a[13];
+  const tz = a[14];
+
+  // 余因子
+  const c00 = m11 * m22 - m12 * m21;
+  const c01 = m12 * m20 - m10 * m22;
+  const c02 = m10 * m21 - m11 * m20;
+
+  const det = m00 * c00 + m01 * c01 + m02 * c02;
+  if (det === 0 || !Number.isFinite(det)) {
+    throw new SingularMatrixError({ cause: { value: matrix } });
+  }
+  const invDet = 1 / det;
+
+  const i00 = c00 * invDet;
+  const i10 = c01 * invDet;
+  const i20 = c02 * invDet;
+  const i01 = (m02 * m21 - m01 * m22) * invDet;
+  const i11 = (m00 * m22 - m02 * m20) * invDet;
+  const i21 = (m01 * m20 - m00 * m21) * invDet;
+  const i02 = (m01 * m12 - m02 * m11) * invDet;
+  const i12 = (m02 * m10 - m00 * m12) * invDet;
+  const i22 = (m00 * m11 - m01 * m10) * invDet;
+
+  // 平行移動成分は -A^-1 t
+  return setValues(
+    out,
+    i00,
+    i10,
+    i20,
+    0,
+    i01,
+    i11,
+    i21,
+    0,
+    i02,
+    i12,
+    i22,
+    0,
+    -(i00 * tx + i01 * ty + i02 * tz),
+    -(i10 * tx + i11 * ty + i12 * tz),
+    -(i20 * tx + i21 * ty + i22 * tz),
+    1,
+  );
+};
+
+/**
+ * 剛体変換（回転と平行移動のみ）の逆行列を求め、`out` に書き込む\
+ * 回転行列の逆行列は転置行列なので、除算を一切行わない
+ * @param out 書き込み先
+ * @param matrix 回転と平行移動のみからなる行列。スケールやせん断を含む場合、結果は正しくない
+ * @returns `out`
+ */
+export const invertRigid = (out: Mat4, matrix: Mat4): Mat4 => {
+  const a = matrix.value;
+  const r00 = a[0];
+  const r10 = a[1];
+  const r20 = a[2];
+  const r01 = a[4];
+  const r11 = a[5];
+  const r21 = a[6];
+  const r02 = a[8];
+  const r12 = a[9];
+  const r22 = a[10];
+  const tx = a[12];
+  const ty = a[13];
+  const tz = a[14];
+
+  // 平行移動成分は -R^T t
+  return setValues(
+    out,
+    r00,
+    r01,
+    r02,
+    0,
+    r10,
+    r11,
+    r12,
+    0,
+    r20,
+    r21,
+    r22,
+    0,
+    -(r00 * tx + r10 * ty + r20 * tz),
+    -(r01 * tx + r11 * ty + r21 * tz),
+    -(r02 * tx + r12 * ty + r22 * tz),
+    1,
+  );
+};
+
+/**
+ * 平行移動行列を `out` に書き込む
+ * @param out 書き込み先
+ * @returns `out`
+ */
+export const getTranslation = (
+  out: Mat4,
+  x: number,
+  y: number,
+  z: number,
+): Mat4 => {
+  return setValues(out, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, x, y, z, 1);
+};
+
+/**
+ * X軸回転行列を `out` に書き込む
+ * @param out 書き込み先
+ * @param rad 回転角（ラジアン）
+ * @returns `out`
+ */
+export const getRotateX = (out: Mat4, rad: number): Mat4 => {
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return setValues(
+    out,
+    1,
+    0,
+    0,
+    0,
+    0,
+    cos,
+    sin,
+    0,
+    0,
+    -sin,
+    cos,
+    0,
+    0,
+    0,
+    0,
+    1,
+  );
+};
+
+/**
+ * Y軸回転行列を `out` に書き込む
+ * @param out 書き込み先
+ * @param rad 回転角（ラジアン）
+ * @returns `out`
+ */
+export const getRotateY = (out: Mat4, rad: number): Mat4 => {
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return setValues(
+    out,
+    cos,
+    0,
+    -sin,
+    0,
+    0,
+    1,
+    0,
+    0,
+    sin,
+    0,
+    cos,
+    0,
+    0,
+    0,
+    0,
+    1,
+  );
+};
+
+/**
+ * Z軸回転行列を `out` に書き込む
+ * @param out 書き込み先
+ * @param rad 回転角（ラジアン）
+ * @returns `out`
+ */
+export const getRotateZ = (out: Mat4, rad: number): Mat4 => {
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return setValues(
+    out,
+    cos,
+    sin,
+    0,
+    0,
+    -sin,
+    cos,
+    0,
+    0,
+    0,
+    0,
+    1,
+    0,
+    0,
+    0,
+    0,
+    1,
+  );
+};
+
+/**
+ * 任意軸回転行列を `out` に書き込む
+ * @param out 書き込み先
+ * @param rad 回転角（ラジアン）
+ * @param axis 回転軸。正規化されている必要がある
+ * @returns `out`
+ */
+export const getRotate = (
+  out: Mat4,
+  rad: number,
+  axis: [number, number, number],
+): Mat4 => {
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const x = axis[0];
+  const y = axis[1];
+  const z = axis[2];
+  const xx = x * x;
+  const yy = y * y;
+  const zz = z * z;
+  const xy = x * y;
+  const yz = y * z;
+  const zx = z * x;
+  const oneMinusCos = 1 - cos;
+
+  return setValues(
+    out,
+    xx * oneMinusCos + cos,
+    xy * oneMinusCos + z * sin,
+    zx * oneMinusCos - y * sin,
+    0,
+    xy * oneMinusCos - z * sin,
+    yy * oneMinusCos + cos,
+    yz * oneMinusCos + x * sin,
+    0,
+    zx * oneMinusCos + y * sin,
+    yz * oneMinusCos - x * sin,
+    zz * oneMinusCos + cos,
+    0,
+    0,
+    0,
+    0,
+    1,
+  );
+};
+
+/**
+ * 拡大縮小行列を `out` に書き込む
+ * @param out 書き込み先
+ * @returns `out`
+ */
+export const getScale = (out: Mat4, x: number, y: number, z: number): Mat4 => {
+  return setValues(out, x, 0, 0, 0, 0, y, 0, 0, 0, 0, z, 0, 0, 0, 0, 1);
+};
+
+/**
+ * 視点変換行列を `out` に書き込む \
+ * upがzと平行であるか、ゼロベクトルだとxがNaNになる
+ * @param out 書き込み先
+ * @param eye
+ * @param target
+ * @param up
+ * @param options 既定では右手系で、カメラは -Z を向く。左手系ではカメラは +Z を向く
+ * @returns `out`
+ */
+export const getLookAt = (
+  out: Mat4,
+  eye: [number, number, number],
+  target: [number, number, number],
+  up: [number, number, number],
+  options: ViewOptions = {},
+): Mat4 => {
+  // アロケーションを避けるため、Vec3 を介さずに計算する
+  // z はカメラの後ろ向き (右手系) 、または前向き (左手系)
+  const sign = options.handedness === "leftHanded" ? -1 : 1;
+  let zx = sign * (eye[0] - target[0]);
+  let zy = sign * (eye[1] - target[1]);
+  let zz = sign * (eye[2] - target[2]);
+  const zLen = Math.hypot(zx, zy, zz);
+  zx /= zLen;
+  zy /= zLen;
+  zz /= zLen;
+
+  let xx = up[1] * zz - up[2] * zy;
+  let xy = up[2] * zx - up[0] * zz;
+  let xz = up[0] * zy - up[1] * zx;
+  const xLen = Math.hypot(xx, xy, xz);
+  xx /= xLen;
+  xy /= xLen;
+  xz /= xLen;
+
+  const yx = zy * xz - zz * xy;
+  const yy = zz * xx - zx * xz;
+  const yz = zx * xy - zy * xx;
+
+  return setValues(
+    out,
+    xx,
+    yx,
+    zx,
+    0,
+    xy,
+    yy,
+    zy,
+    0,
+    xz,
+    yz,
+    zz,
+    0,
+    -(xx * eye[0] + xy * eye[1] + xz * eye[2]),
+    -(yx * eye[0] + yy * eye[1] + yz * eye[2]),
+    -(zx * eye[0] + zy * eye[1] + zz * eye[2]),
+    1,
+  );
+};
+
+/**
+ * 右手系・深度 `[-1, 1]` で書き込まれた射影行列に、`options` の設定を反映する
+ *
+ * @internal
+ */
+const applyProjectionOptions = (
+  out: Mat4,
+  options: ProjectionOptions,
+  defaultDepthRange: DepthRange = "negativeOneToOne",
+): Mat4 => {
+  if (options.handedness === "leftHanded") {
+    // 右から z を反転する行列を掛ける。カメラが +Z を向くようになる
+    const o = out.value;
+    o[8] = -o[8];
+    o[9] = -o[9];
+    o[10] = -o[10];
+    o[11] = -o[11];
+  }
+  return convertDepthRange(
+    out,
+    out,
+    "negativeOneToOne",
+    options.depthRange ?? defaultDepthRange,
+  );
+};
+
+/**
+ * 透視射影行列を `out` に書き込む\
+ * 近平面の深度が -1 (`zeroToOne` では 0) 、遠平面の深度が 1 になる。深度テストには `gl.LESS` を用い、深度バッファは 1 でクリアする
+ * @param out 書き込み先
+ * @param fovY 垂直方向の視野角（ラジアン）
+ * @param aspect アスペクト比（横 / 縦）
+ * @param near 最近接距離（0 より大きい）
+ * @param far 最遠距離（near より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
+ * @returns `out`
+ */
+export const getPerspective = (
+  out: Mat4,
+  fovY: number,
+  aspect: number,
+  near: number,
+  far: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  const f = 1.0 / Math.tan(fovY / 2);
+  const nf = 1 / (near - far);
+
+  setValues(
+    out,
+    f / aspect,
+    0,
+    0,
+    0,
+    0,
+    f,
+    0,
+    0,
+    0,
+    0,
+    (far + near) * nf,
+    -1,
+    0,
+    0,
+    2 * far * near * nf,
+    0,
+  );
+  return applyProjectionOptions(out, options);
+};
+
+/**
+ * 深度を反転させた (reverse-Z) 透視射影行列を `out` に書き込む\
+ * 近平面の深度が 1、遠平面の深度が 0 (`negativeOneToOne` では -1) になる。深度テストには `gl.GREATER` を用い、深度バッファは 0 でクリアする
+ * @param out 書き込み先
+ * @param fovY 垂直方向の視野角（ラジアン）
+ * @param aspect アスペクト比（横 / 縦）
+ * @param near 最近接距離（0 より大きい）
+ * @param far 最遠距離（near より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[0, 1]`
+ * @returns `out`
+ *
+ * @remarks
+ * reverse-Z は浮動小数点数の深度バッファと組み合わせると遠方の精度が大きく改善する。
+ * ただし `[-1, 1]` ではウィンドウ座標への変換 `0.5 * z + 0.5` で遠方の値が 0.5 付近に集まり、改善が打ち消されるため、深度の範囲の既定値を `[0, 1]` としている。
+ * WebGL では `EXT_clip_control` などでクリップ空間の深度を `[0, 1]` にした上で用いる。WebGPU はそのまま `[0, 1]` である
+ */
+export const getPerspectiveReverseZ = (
+  out: Mat4,
+  fovY: number,
+  aspect: number,
+  near: number,
+  far: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  const f = 1.0 / Math.tan(fovY / 2);
+  const nf = 1 / (far - near);
+
+  setValues(
+    out,
+    f / aspect,
+    0,
+    0,
+    0,
+    0,
+    f,
+    0,
+    0,
+    0,
+    0,
+    (far + near) * nf,
+    -1,
+    0,
+    0,
+    2 * far * near * nf,
+    0,
+  );
+  return applyProjectionOptions(out, options, "zeroToOne");
+};
+
+/**
+ * 遠平面を無限遠に置いた透視射影行列を `out` に書き込む\
+ * 近平面の深度が -1 (`zeroToOne` では 0) になり、無限遠に近づくにつれて深度が 1 に近づく。深度テストには `gl.LESS` を用い、深度バッファは 1 でクリアする
+ * @param out 書き込み先
+ * @param fovY 垂直方向の視野角（ラジアン）
+ * @param aspect アスペクト比（横 / 縦）
+ * @param near 最近接距離（0 より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
+ * @returns `out`
+ */
+export const getPerspectiveInfinite = (
+  out: Mat4,
+  fovY: number,
+  aspect: number,
+  near: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  const f = 1.0 / Math.tan(fovY / 2);
+
+  setValues(
+    out,
+    f / aspect,
+    0,
+    0,
+    0,
+    0,
+    f,
+    0,
+    0,
+    0,
+    0,
+    -1,
+    -1,
+    0,
+    0,
+    -2 * near,
+    0,
+  );
+  return applyProjectionOptions(out, options);
+};
+
+/**
+ * 遠平面を無限遠に置き、深度を反転させた透視射影行列を `out` に書き込む\
+ * 近平面の深度が 1 になり、無限遠に近づくにつれて深度が 0 (`negativeOneToOne` では -1) に近づく。深度テストには `gl.GREATER` を用い、深度バッファは 0 でクリアする
+ * @param out 書き込み先
+ * @param fovY 垂直方向の視野角（ラジアン）
+ * @param aspect アスペクト比（横 / 縦）
+ * @param near 最近接距離（0 より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[0, 1]` (理由は `getPerspectiveReverseZ` を参照)
+ * @returns `out`
+ */
+export const getPerspectiveInfiniteReverseZ = (
+  out: Mat4,
+  fovY: number,
+  aspect: number,
+  near: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  const f = 1.0 / Math.tan(fovY / 2);
+
+  setValues(
+    out,
+    f / aspect,
+    0,
+    0,
+    0,
+    0,
+    f,
+    0,
+    0,
+    0,
+    0,
+    1,
+    -1,
+    0,
+    0,
+    2 * near,
+    0,
+  );
+  return applyProjectionOptions(out, options, "zeroToOne");
+};
+
+/**
+ * 正射影行列を `out` に書き込む\
+ * 視錐台ではなく直方体 `[left, right] x [bottom, top] x [-near, -far]` を、クリップ空間の立方体に写す
+ * @param out 書き込み先
+ * @param left 左端の x 座標
+ * @param right 右端の x 座標
+ * @param bottom 下端の y 座標
+ * @param top 上端の y 座標
+ * @param near 最近接距離
+ * @param far 最遠距離
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
+ * @returns `out`
+ */
+export const getOrthographic = (
+  out: Mat4,
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  const lr = 1 / (left - right);
+  const bt = 1 / (bottom - top);
+  const nf = 1 / (near - far);
+
+  setValues(
+    out,
+    -2 * lr,
+    0,
+    0,
+    0,
+    0,
+    -2 * bt,
+    0,
+    0,
+    0,
+    0,
+    2 * nf,
+    0,
+    (left + right) * lr,
+    (top + bottom) * bt,
+    (far + near) * nf,
+    1,
+  );
+  return applyProjectionOptions(out, options);
+};
+
+/**
+ * 視錐台の近平面の範囲を指定して透視射影行列を `out` に書き込む\
+ * 視点が近平面の中心にない (off-axis) 射影を作れるため、立体視などで使う
+ * @param out 書き込み先
+ * @param left 近平面の左端の x 座標
+ * @param right 近平面の右端の x 座標
+ * @param bottom 近平面の下端の y 座標
+ * @param top 近平面の上端の y 座標
+ * @param near 最近接距離（0 より大きい）
+ * @param far 最遠距離（near より大きい）
+ * @param options 射影の設定。既定では右手系、深度の範囲は `[-1, 1]`
+ * @returns `out`
+ */
+export const getFrustum = (
+  out: Mat4,
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+  options: ProjectionOptions = {},
+): Mat4 => {
+  const rl = 1 / (right - left);
+  const tb = 1 / (top - bottom);
+  const nf = 1 / (near - far);
+
+  setValues(
+    out,
+    2 * near * rl,
+    0,
+    0,
+    0,
+    0,
+    2 * near * tb,
+    0,
+    0,
+    (right + left) * rl,
+    (top + bottom) * tb,
+    (far + near) * nf,
+    -1,
+    0,
+    0,
+    2 * far * near * nf,
+    0,
+  );
+  return applyProjectionOptions(out, options);
+};
+
+/**
+ * 射影行列が出力する深度の範囲を変換し、`out` に書き込む\
+ * 射影行列の左から深度を写す行列を掛けることと等しい
+ * @param out 書き込み先
+ * @param matrix 射影行列
+ * @param from `matrix` の深度の範囲
+ * @param to 変換後の深度の範囲
+ * @returns `out`
+ */
+export const convertDepthRange = (
+  out: Mat4,
+  matrix: Mat4,
+  from: DepthRange,
+  to: DepthRange,
+): Mat4 => {
+  if (out !== matrix) {
+    copy(out, matrix);
+  }
+  if (from === to) {
+    return out;
+  }
+  const o = out.value;
+  // 各列の z 成分 (3行目) を w 成分 (4行目) を使って書き換える
+  for (let col = 0; col < 4; col++) {
+    const z = o[col * 4 + 2];
+    const w = o[col * 4 + 3];
+    // [-1, 1] -> [0, 1] : z' = (z + w) / 2,  [0, 1] -> [-1, 1] : z' = 2z - w
+    o[col * 4 + 2] = to === "zeroToOne" ? (z + w) / 2 : 2 * z - w;
+  }
+  return out;
+};
+
+/**
+ * 変換行列の右手系・左手系を入れ替え、`out` に書き込む\
+ * z を反転する行列 `F = diag(1, 1, -1, 1)` を用いて `F * matrix * F` を求める
+ * @param out 書き込み先
+ * @param matrix モデル行列やビュー行列などの変換行列
+ * @returns `out`
+ */
+export const convertHandedness = (out: Mat4, matrix: Mat4): Mat4 => {
+  if (out !== matrix) {
+    copy(out, matrix);
+  }
+  const o = out.value;
+  // 3行目と3列目を反転する。(2, 2) 成分は2回反転されるので元のまま
+  o[2] = -o[2];
+  o[6] = -o[6];
+  o[14] = -o[14];
+  o[8] = -o[8];
+  o[9] = -o[9];
+  o[11] = -o[11];
+  return out;
+};
@@ -0,0 +1,380 @@
+import * as fMat from "./f32Mat";
+import type { Mat3 } from "./mat3";
+import type { Mat4 } from "./mat4";
+import * as vec3 from "./vec3";
+
+const TYPE_NAME = "Quat";
+
+/**
+ * 回転を表すクォータニオン\
+ * 値は `[x, y, z, w]` の順に持ち、`w` が実部
+ */
+export type Quat = {
+  type: typeof TYPE_NAME;
+  /** [x, y, z, w] */
+  value: Float32Array;
+  [Symbol.toPrimitive]?: (hint: string) => string | null;
+};
+
+/**
+ * 引数が`Quat`型を満たしており、論理的に構造が破綻していないか確かめる
+ * @summary 実用的には、この関数を利用せずとも`type`の値が`"Quat"`であれば`Quat`としてよい
+ */
+export const isQuat = (value: unknown): value is Quat => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const q = value as Partial<Quat>;
+  return (
+    q.type === TYPE_NAME &&
+    q.value instanceof Float32Array &&
+    q.value.length === 4
+  );
+};
+
+/**
+ * [Symbol.toPrimitive] の実装
+ * @param this
+ * @param hint
+ * @returns プリミティブ値
+ */
+const toPrimitive = function (this: Quat, hint: string): string | null {
+  if (hint === "string") {
+    return `[object ${this.type}]`;
+  }
+  return null;
+};
+
+/**
+ * 値の配列から新しい `Quat` インスタンスを生成
+ * @param value [x, y, z, w] の順に並んだ値
+ * @returns 新しい `Quat` インスタンス
+ *
+ * @remarks この関数は値の妥当性チェックを行わない。呼び出し側で要素数が4であることを保証すること
+ */
+export const init = (value: ArrayLike<number> = [0, 0, 0, 1]): Quat =>
+  ({
+    type: TYPE_NAME,
+    value: new Float32Array(value),
+    [Symbol.toPrimitive]: toPrimitive,
+  }) as Quat;
+
+/**
+ * 回転しないことを表す単位クォータニオンを作成
+ */
+export const getIdentity = (): Quat => {
+  return init([0, 0, 0, 1]);
+};
+
+export const getClone = (q: Quat): Quat => {
+  return { ...q, value: Float32Array.from(q.value) };
+};
+
+/**
+ * 回転軸と角度からクォータニオンを作成する
+ * @param axis 回転軸。正規化されていなくてもよい
+ * @param rad 回転角（ラジアン）。軸の正の方向から見て反時計回りが正
+ */
+export const fromAxisAngle = (axis: vec3.Vec3, rad: number): Quat => {
+  const [x, y, z] = vec3.normalize(axis).value;
+  const sin = Math.sin(rad / 2);
+  return init([x * sin, y * sin, z * sin, Math.cos(rad / 2)]);
+};
+
+/**
+ * 単位クォータニオンを回転軸と角度に分解する
+ * @param q 単位クォータニオン
+ * @returns 回転角が0の場合、軸は `[1, 0, 0]` とする
+ */
+export const toAxisAngle = (q: Quat): { axis: vec3.Vec3; angle: number } => {
+  const [x, y, z, w] = q.value;
+  const angle = 2 * Math.acos(Math.min(Math.max(w, -1), 1));
+  const sin = Math.sqrt(Math.max(1 - w * w, 0));
+  if (sin < 1e-6) {
+    return { axis: vec3.init([1, 0, 0]), angle };
+  }
+  return { axis: vec3.init([x / sin, y / sin, z / sin]), angle };
+};
+
+/**
+ * クォータニオンの積（ハミルトン積）を求める\
+ * `multiply(a, b)` は `b` の回転の後に `a` の回転を行う回転を表す
+ * @param a 左辺値
+ * @param b 右辺値
+ */
+export const multiply = (a: Quat, b: Quat): Quat => {
+  const [ax, ay, az, aw] = a.value;
+  const [bx, by, bz, bw] = b.value;
+  return init([
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz,
+  ]);
+};
+
+/**
+ * 共役クォータニオンを返す。単位クォータニオンであれば逆回転を表す
+ * @param q
+ */
+export const conjugate = (q: Quat): Quat => {
+  const [x, y, z, w] = q.value;
+  return init([-x, -y, -z, w]);
+};
+
+/**
+ * 逆クォータニオンを返す
+ * @param q
+ * @remarks 長さが0のクォータニオンを与えると、成分がNaNのクォータニオンになる
+ */
+export const inverse = (q: Quat): Quat => {
+  const [x, y, z, w] = q.value;
+  const invLengthSq = 1 / dot(q, q);
+  return init([
+    -x * invLengthSq,
+    -y * invLengthSq,
+    -z * invLengthSq,
+    w * invLengthSq,
+  ]);
+};
+
+export const dot = (a: Quat, b: Quat): number => {
+  const x = a.value;
+  const y = b.value;
+  return x[0] * y[0] + x[1] * y[1] + x[2] * y[2] + x[3] * y[3];
+};
+
+export const length = (q: Quat): number => {
+  return Math.sqrt(dot(q, q));
+};
+
+/**
+ * 長さが1になるようにスケールしたクォータニオンを返す\
+ * 回転を積み重ねた際の誤差の蓄積を打ち消すために用いる
+ * @param q
+ * @remarks 長さが0のクォータニオンを与えると、成分がNaNのクォータニオンになる
+ */
+export const normalize = (q: Quat): Quat => {
+  const invLength = 1 / length(q);
+  const [x, y, z, w] = q.value;
+  return init([x * invLength, y * invLength, z * invLength, w * invLength]);
+};
+
+/**
+ * 線形補間した後に正規化する。`slerp` より高速だが、角速度は一定にならない
+ * @param a `t = 0` の時の回転
+ * @param b `t = 1` の時の回転
+ * @param t 補間係数
+ * @remarks 常に最短経路で補間する
+ */
+export const nlerp = (a: Quat, b: Quat, t: number): Quat => {
+  const x = a.value;
+  const y = b.value;
+  const sign = dot(a, b) < 0 ? -1 : 1;
+  return normalize(
+    init([
+      x[0] + (sign * y[0] - x[0]) * t,
+      x[1] + (sign * y[1] - x[1]) * t,
+      x[2] + (sign * y[2] - x[2]) * t,
+      x[3] + (sign * y[3] - x[3]) * t,
+    ]),
+  );
+};
+
+/**
+ * 球面線形補間
+ * @param a `t = 0` の時の回転
+ * @param b `t = 1` の時の回転
+ * @param t 補間係数
+ * @remarks 常に最短経路で補間する。2つの回転がほぼ等しい場合は `nlerp` にフォールバックする
+ */
+export const slerp = (a: Quat, b: Quat, t: number): Quat => {
+  let cos = dot(a, b);
+  let sign = 1;
+  if (cos < 0) {
+    cos = -cos;
+    sign = -1;
+  }
+  if (cos > 1 - 1e-6) {
+    return nlerp(a, b, t);
+  }
+  const theta = Math.acos(cos);
+  const sin = Math.sin(theta);
+  const s0 = Math.sin((1 - t) * theta) / sin;
+  const s1 = (sign * Math.sin(t * theta)) / sin;
+  const x = a.value;
+  const y = b.value;
+  return init([
+    s0 * x[0] + s1 * y[0],
+    s0 * x[1] + s1 * y[1],
+    s0 * x[2] + s1 * y[2],
+    s0 * x[3] + s1 * y[3],
+  ]);
+};
+
+/**
+ * ベクトルを回転させる
+ * @param q 単位クォータニオン
+ * @param vector 回転させるベクトル
+ */
+export const rotateVec3 = (q: Quat, vector: vec3.Vec3): vec3.Vec3 => {
+  const [qx, qy, qz, qw] = q.value;
+  const [vx, vy, vz] = vector.value;
+  // t = 2 * (q.xyz × v)
+  const tx = 2 * (qy * vz - qz * vy);
+  const ty = 2 * (qz * vx - qx * vz);
+  const tz = 2 * (qx * vy - qy * vx);
+  // v' = v + w * t + q.xyz × t
+  return vec3.init([
+    vx + qw * tx + (qy * tz - qz * ty),
+    vy + qw * ty + (qz * tx - qx * tz),
+    vz + qw * tz + (qx * ty - qy * tx),
+  ]);
+};
+
+/**
+ * 回転行列 (3x3) に変換する
+ * @param q 単位クォータニオン
+ */
+export const toMat3 = (q: Quat): Mat3 => {
+  const [x, y, z, w] = q.value;
+  const xx = x * x;
+  const yy = y * y;
+  const zz = z * z;
+  const xy = x * y;
+  const yz = y * z;
+  const zx = z * x;
+  const wx = w * x;
+  const wy = w * y;
+  const wz = w * z;
+
+  // 列優先で並べる
+  return fMat.init(
+    [
+      1 - 2 * (yy + zz),
+      2 * (xy + wz),
+      2 * (zx - wy),
+      2 * (xy - wz),
+      1 - 2 * (xx + zz),
+      2 * (yz + wx),
+      2 * (zx + wy),
+      2 * (yz - wx),
+      1 - 2 * (xx + yy),
+    ],
+    3,
+    3,
+  );
+};
+
+/**
+ * 回転行列 (4x4) に変換する
+ * @param q 単位クォータニオン
+ */
+export const toMat4 = (q: Quat): Mat4 => {
+  const m = toMat3(q).value;
+  return fMat.init(
+    [m[0], m[1], m[2], 0, m[3], m[4], m[5], 0, m[6], m[7], m[8], 0, 0, 0, 0, 1],
+    4,
+    4,
+  );
+};
+
+/**
+ * 回転行列の各成分からクォータニオンを求める (Shepperd の方法)\
+ * 対角成分の大きさで場合分けし、平方根に小さな値を与えないようにする
+ *
+ * @internal
+ */
+const fromRotationComponents = (
+  m00: number,
+  m01: number,
+  m02: number,
+  m10: number,
+  m11: number,
+  m12: number,
+  m20: number,
+  m21: number,
+  m22: number,
+): Quat => {
+  const trace = m00 + m11 + m22;
+  if (trace > 0) {
+    const s = 2 * Math.sqrt(trace + 1);
+    return init([(m21 - m12) / s, (m02 - m20) / s, (m10 - m01) / s, s / 4]);
+  }
+  if (m00 > m11 && m00 > m22) {
+    const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+    return init([s / 4, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s]);
+  }
+  if (m11 > m22) {
+    const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+    return init([(m01 + m10) / s, s / 4, (m12 + m21) / s, (m02 - m20) / s]);
+  }
+  const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+  return init([(m02 + m20) / s, (m12 + m21) / s, s / 4, (m10 - m01) / s]);
+};
+
+/**
+ * 回転行列 (3x3) からクォータニオンを求める
+ * @param matrix スケールを含まない回転行列
+ */
+export const fromMat3 = (matrix: Mat3): Quat => {
+  const v = matrix.value;
+  return fromRotationComponents(
+    v[0],
+    v[3],
+    v[6],
+    v[1],
+    v[4],
+    v[7],
+    v[2],
+    v[5],
+    v[8],
+  );
+};
+
+/**
+ * 4x4行列の左上3x3からクォータニオンを求める
+ * @param matrix スケールを含まない回転行列。平行移動成分は無視される
+ */
+export const fromMat4 = (matrix: Mat4): Quat => {
+  const v = matrix.value;
+  return fromRotationComponents(
+    v[0],
+    v[4],
+    v[8],
+    v[1],
+    v[5],
+    v[9],
+    v[2],
+    v[6],
+    v[10],
+  );
+};
+
+/**
+ * 2つのクォータニオンの対応する値の差が、全て与えられた許容範囲内であるかを返す
+ * @param a 比較対象の1つ目のクォータニオン
+ * @param b 比較対象の2つ目のクォータニオン
+ * @param precisionExponent 許容する誤差の指数（デフォルトは `Infinity` ）
+ * @remarks `q` と `-q` は同じ回転を表すが、この関数では等しいとみなさない
+ */
+export const equals = (
+  a: Quat,
+  b: Quat,
+  precisionExponent = Infinity,
+): boolean => {
+  // precisionExponentがInfinityの場合、完全一致比較を行う
+  if (precisionExponent === Infinity) {
+    return a.value.every((v, i) => v === b.value[i]);
+  }
+
+  const epsilon = Math.pow(10, -precisionExponent);
+
+  return a.value.every((v, i) => Math.abs(v - b.value[i]) < epsilon);
+};
+
+export const toString = (q: Quat): string => {
+  return Array.from(q.value)
+    .map(n => n.toFixed(3))
+    .join("\t");
+};
@@ -0,0 +1,164 @@
+const TYPE_NAME = "Vec2";
+
+/**
+ * 2次元ベクトル\
+ * webGLにそのまま渡せるよう、値は`Float32Array`で持つ
+ */
+export type Vec2 = {
+  type: typeof TYPE_NAME;
+  /** [x, y] */
+  value: Float32Array;
+  [Symbol.toPrimitive]?: (hint: string) => string | null;
+};
+
+/**
+ * 引数が`Vec2`型を満たしており、論理的に構造が破綻していないか確かめる
+ * @summary 実用的には、この関数を利用せずとも`type`の値が`"Vec2"`であれば`Vec2`としてよい
+ */
+export const isVec2 = (value: unknown): value is Vec2 => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const vector = value as Partial<Vec2>;
+  return (
+    vector.type === TYPE_NAME &&
+    vector.value instanceof Float32Array &&
+    vector.value.length === 2
+  );
+};
+
+/**
+ * [Symbol.toPrimitive] の実装
+ * @param this
+ * @param hint
+ * @returns プリミティブ値
+ */
+const toPrimitive = function (this: Vec2, hint: string): string | null {
+  if (hint === "string") {
+    return `[object ${this.type}]`;
+  }
+  return null;
+};
+
+/**
+ * 値の配列から新しい `Vec2` インスタンスを生成
+ * @param value [x, y] の順に並んだ値
+ * @returns 新しい `Vec2` インスタンス
+ *
+ * @remarks この関数は値の妥当性チェックを行わない。呼び出し側で要素数が2であることを保証すること
+ */
+export const init = (value: ArrayLike<number> = [0, 0]): Vec2 =>
+  ({
+    type: TYPE_NAME,
+    value: new Float32Array(value),
+    [Symbol.toPrimitive]: toPrimitive,
+  }) as Vec2;
+
+/**
+ * ベクトルのディープコピーを返す
+ * @param vector コピーを手に入れたいベクトル
+ */
+export const getClone = (vector: Vec2): Vec2 => {
+  return { ...vector, value: Float32Array.from(vector.value) };
+};
+
+/**
+ * 零ベクトルを作成
+ */
+export const getZero = (): Vec2 => {
+  return init(new Float32Array(2));
+};
+
+/**
+ * ベクトルの加算
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 加算された新しいベクトル
+ */
+export const add = (a: Vec2, b: Vec2): Vec2 => {
+  const x = a.value;
+  const y = b.value;
+  return init([x[0] + y[0], x[1] + y[1]]);
+};
+
+/**
+ * ベクトルの減算
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 減算された新しいベクトル
+ */
+export const subtract = (a: Vec2, b: Vec2): Vec2 => {
+  const x = a.value;
+  const y = b.value;
+  return init([x[0] - y[0], x[1] - y[1]]);
+};
+
+/**
+ * スカラー倍されたベクトルを返す
+ * @param vector 左辺値
+ * @param scalar 全ての成分に掛けられる値
+ */
+export const scale = (vector: Vec2, scalar: number): Vec2 => {
+  const x = vector.value;
+  return init([x[0] * scalar, x[1] * scalar]);
+};
+
+/**
+ * 内積（ドット積）を求める
+ * @param a 左辺値
+ * @param b 右辺値
+ */
+export const dot = (a: Vec2, b: Vec2): number => {
+  const x = a.value;
+  const y = b.value;
+  return x[0] * y[0] + x[1] * y[1];
+};
+
+/**
+ * ベクトルの長さ（ユークリッドノルム）を求める
+ * @param vector
+ */
+export const length = (vector: Vec2): number => {
+  return Math.sqrt(dot(vector, vector));
+};
+
+/**
+ * 長さが1になるようにスケールしたベクトルを返す
+ * @param vector
+ * @remarks 長さが0のベクトルを与えると、成分がNaNのベクトルになる
+ */
+export const normalize = (vector: Vec2): Vec2 => {
+  return scale(vector, 1 / length(vector));
+};
+
+/**
+ * 2つのベクトルの対応する値の差が、全て与えられた許容範囲内であるかを返す
+ * @param a 比較対象の1つ目のベクトル
+ * @param b 比較対象の2つ目のベクトル
+ * @param precisionExponent 許容する誤差の指数（デフォルトは `Infinity` ）
+ * @returns すべての要素が許容誤差内で一致しているか
+ */
+export const equals = (
+  a: Vec2,
+  b: Vec2,
+  precisionExponent = Infinity,
+): boolean => {
+  // precisionExponentがInfinityの場合、完全一致比較を行う
+  if (precisionExponent === Infinity) {
+    return a.value.every((v, i) => v === b.value[i]);
+  }
+
+  const epsilon = Math.pow(10, -precisionExponent);
+
+  return a.value.every((v, i) => Math.abs(v - b.value[i]) < epsilon);
+};
+
+/**
+ * ベクトルをコンソール上で確認しやすいテキストに整形する
+ * @param vector
+ */
+export const toString = (vector: Vec2): string => {
+  return Array.from(vector.value)
+    .map(n => n.toFixed(3))
+    .join("\t");
+};
@@ -0,0 +1,180 @@
+const TYPE_NAME = "Vec3";
+
+/**
+ * 3次元ベクトル\
+ * webGLにそのまま渡せるよう、値は`Float32Array`で持つ
+ */
+export type Vec3 = {
+  type: typeof TYPE_NAME;
+  /** [x, y, z] */
+  value: Float32Array;
+  [Symbol.toPrimitive]?: (hint: string) => string | null;
+};
+
+/**
+ * 引数が`Vec3`型を満たしており、論理的に構造が破綻していないか確かめる
+ * @summary 実用的には、この関数を利用せずとも`type`の値が`"Vec3"`であれば`Vec3`としてよい
+ */
+export const isVec3 = (value: unknown): value is Vec3 => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const vector = value as Partial<Vec3>;
+  return (
+    vector.type === TYPE_NAME &&
+    vector.value instanceof Float32Array &&
+    vector.value.length === 3
+  );
+};
+
+/**
+ * [Symbol.toPrimitive] の実装
+ * @param this
+ * @param hint
+ * @returns プリミティブ値
+ */
+const toPrimitive = function (this: Vec3, hint: string): string | null {
+  if (hint === "string") {
+    return `[object ${this.type}]`;
+  }
+  return null;
+};
+
+/**
+ * 値の配列から新しい `Vec3` インスタンスを生成
+ * @param value [x, y, z] の順に並んだ値
+ * @returns 新しい `Vec3` インスタンス
+ *
+ * @remarks この関数は値の妥当性チェックを行わない。呼び出し側で要素数が3であることを保証すること
+ */
+export const init = (value: ArrayLike<number> = [0, 0, 0]): Vec3 =>
+  ({
+    type: TYPE_NAME,
+    value: new Float32Array(value),
+    [Symbol.toPrimitive]: toPrimitive,
+  }) as Vec3;
+
+/**
+ * ベクトルのディープコピーを返す
+ * @param vector コピーを手に入れたいベクトル
+ */
+export const getClone = (vector: Vec3): Vec3 => {
+  return { ...vector, value: Float32Array.from(vector.value) };
+};
+
+/**
+ * 零ベクトルを作成
+ */
+export const getZero = (): Vec3 => {
+  return init(new Float32Array(3));
+};
+
+/**
+ * ベクトルの加算
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 加算された新しいベクトル
+ */
+export const add = (a: Vec3, b: Vec3): Vec3 => {
+  const x = a.value;
+  const y = b.value;
+  return init([x[0] + y[0], x[1] + y[1], x[2] + y[2]]);
+};
+
+/**
+ * ベクトルの減算
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns 減算された新しいベクトル
+ */
+export const subtract = (a: Vec3, b: Vec3): Vec3 => {
+  const x = a.value;
+  const y = b.value;
+  return init([x[0] - y[0], x[1] - y[1], x[2] - y[2]]);
+};
+
+/**
+ * スカラー倍されたベクトルを返す
+ * @param vector 左辺値
+ * @param scalar 全ての成分に掛けられる値
+ */
+export const scale = (vector: Vec3, scalar: number): Vec3 => {
+  const x = vector.value;
+  return init([x[0] * scalar, x[1] * scalar, x[2] * scalar]);
+};
+
+/**
+ * 内積（ドット積）を求める
+ * @param a 左辺値
+ * @param b 右辺値
+ */
+export const dot = (a: Vec3, b: Vec3): number => {
+  const x = a.value;
+  const y = b.value;
+  return x[0] * y[0] + x[1] * y[1] + x[2] * y[2];
+};
+
+/**
+ * 外積（クロス積）を求める
+ * @param a 左辺値
+ * @param b 右辺値
+ * @returns `a` と `b` の両方に直交するベクトル
+ */
+export const cross = (a: Vec3, b: Vec3): Vec3 => {
+  const x = a.value;
+  const y = b.value;
+  return init([
+    x[1] * y[2] - x[2] * y[1],
+    x[2] * y[0] - x[0] * y[2],
+    x[0] * y[1] - x[1] * y[0],
+  ]);
+};
+
+/**
+ * ベクトルの長さ（ユークリッドノルム）を求める
+ * @param vector
+ */
+export const length = (vector: Vec3): number => {
+  return Math.sqrt(dot(vector, vector));
+};
+
+/**
+ * 長さが1になるようにスケールしたベクトルを返す
+ * @param vector
+ * @remarks 長さが0のベクトルを与えると、成分がNaNのベクトルになる
+ */
+export const normalize = (vector: Vec3): Vec3 => {
+  return scale(vector, 1 / length(vector));
+};
+
+/**
+ * 2つのベクトルの対応する値の差が、全て与えられた許容範囲内であるかを返す
+ * @param a 比較対象の1つ目のベクトル
+ * @param b 比較対象の2つ目のベクトル
+ * @param precisionExponent 許容する誤差の指数（デフォルトは `Infinity` ）
+ * @returns すべての要素が許容誤差内で一致しているか
+ */
+export const equals = (
+  a: Vec3,
+  b: Vec3,
+  precisionExponent = Infinity,
+): boolean => {
+  // precisionExponentがInfinityの場合、完全一致比較を行う
+  if (precisionExponent === Infinity) {
+    return a.value.every((v, i) => v === b.value[i]);
+  }
+
+  const epsilon = Math.pow(10, -precisionExponent);
+
+  return a.value.every((v, i) => Math.abs(v - b.value[i]) < epsilon);
+};
+
+/**
+ * ベクトルをコンソール上で確認しやすいテキストに整形する
+ * @param vector
+ */
+export const toString = (vector: Vec3): string => {
+  return Array.from(vector.value)
+    .map(n => n.toFixed(3))
+    .join("\t");
+};
@@ -0,0 +1,210 @@
+import { ValidationError } from "./errors";
+import * as mat3 from "./mat3";
+import type { Mat4 } from "./mat4";
+
+/*
+ * 頂点バッファ (`Float32Array`) に並んだベクトルへ、まとめて `Mat4` を適用する関数群。
+ * ベイクやピッキング、バウンディングボックスの計算など、CPU 側で頂点を変換する場合に用いる。
+ *
+ * `mat4Out` と同様に、結果は第1引数の `out` に書き込まれ、`out` と `buffer` は同じバッファでもよい。
+ * `out` は `buffer` と同じレイアウト (`stride`, `offset`) で書き込まれ、変換対象以外の成分は変更されない
+ */
+
+/**
+ * バッファ上のベクトルの並び方。単位はバイトではなく要素 (float) 数
+ */
+export type BufferLayout = {
+  /** ある頂点の先頭から次の頂点の先頭までの要素数。既定値はベクトルの成分数 */
+  stride?: number;
+  /** 最初の頂点の先頭の位置。既定値は 0 */
+  offset?: number;
+  /** 変換する頂点の数。既定値はバッファに収まるだけ */
+  count?: number;
+};
+
+export type PointTransformOptions = BufferLayout & {
+  /** 結果を `w` で割るか。既定値は `true` */
+  perspectiveDivide?: boolean;
+};
+
+export type NormalTransformOptions = BufferLayout & {
+  /** 結果を長さ1に正規化するか。既定値は `true` */
+  normalize?: boolean;
+};
+
+/**
+ * レイアウトを検証し、省略された値を補う
+ *
+ * @internal
+ */
+const resolveLayout = (
+  out: Float32Array,
+  buffer: Float32Array,
+  size: number,
+  layout: BufferLayout,
+): { stride: number; offset: number; count: number } => {
+  const stride = layout.stride ?? size;
+  const offset = layout.offset ?? 0;
+  if (!Number.isInteger(stride) || stride < size) {
+    throw new ValidationError(`Stride must be an integer of at least ${size}`, {
+      cause: { reason: "invalidStride", value: stride },
+    });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ValidationError("Offset must be a non-negative integer", {
+      cause: { reason: "invalidOffset", value: offset },
+    });
+  }
+
+  const available =
+    buffer.length < offset + size
+      ? 0
+      : Math.floor((buffer.length - offset - size) / stride) + 1;
+  const count = layout.count ?? available;
+  if (!Number.isInteger(count) || count < 0 || count > available) {
+    throw new ValidationError("Buffer is too small for the given layout", {
+      cause: { reason: "bufferTooSmall", value: count },
+    });
+  }
+  if (count > 0 && out.length < offset + (count - 1) * stride + size) {
+    throw new ValidationError("Output buffer is too small", {
+      cause: { reason: "bufferTooSmall", value: out.length },
+    });
+  }
+
+  return { stride, offset, count };
+};
+
+/**
+ * 3要素の点を変換し、`out` に書き込む。`w = 1` の同次座標として扱う
+ * @param out 書き込み先。`buffer` と同じでもよい
+ * @param matrix 変換行列
+ * @param buffer 点が並んだバッファ
+ * @param options バッファのレイアウトと、透視除算を行うか
+ * @returns `out`
+ * @throws ValidationError レイアウトが不正、またはバッファが足りない
+ */
+export const transformPoints = (
+  out: Float32Array,
+  matrix: Mat4,
+  buffer: Float32Array,
+  options: PointTransformOptions = {},
+): Float32Array => {
+  const { stride, offset, count } = resolveLayout(out, buffer, 3, options);
+  const divide = options.perspectiveDivide ?? true;
+  const m = matrix.value;
+
+  for (let i = 0, p = offset; i < count; i++, p += stride) {
+    const x = buffer[p];
+    const y = buffer[p + 1];
+    const z = buffer[p + 2];
+    const w = divide ? m[3] * x + m[7] * y + m[11] * z + m[15] : 1;
+    out[p] = (m[0] * x + m[4] * y + m[8] * z + m[12]) / w;
+    out[p + 1] = (m[1] * x + m[5] * y + m[9] * z + m[13]) / w;
+    out[p + 2] = (m[2] * x + m[6] * y + m[10] * z + m[14]) / w;
+  }
+
+  return out;
+};
+
+/**
+ * 4要素の同次座標を変換し、`out` に書き込む。透視除算は行わない
+ * @param out 書き込み先。`buffer` と同じでもよい
+ * @param matrix 変換行列
+ * @param buffer ベクトルが並んだバッファ
+ * @param options バッファのレイアウト
+ * @returns `out`
+ * @throws ValidationError レイアウトが不正、またはバッファが足りない
+ */
+export const transformVec4s = (
+  out: Float32Array,
+  matrix: Mat4,
+  buffer: Float32Array,
+  options: BufferLayout = {},
+): Float32Array => {
+  const { stride, offset, count } = resolveLayout(out, buffer, 4, options);
+  const m = matrix.value;
+
+  for (let i = 0, p = offset; i < count; i++, p += stride) {
+    const x = buffer[p];
+    const y = buffer[p + 1];
+    const z = buffer[p + 2];
+    const w = buffer[p + 3];
+    out[p] = m[0] * x + m[4] * y + m[8] * z + m[12] * w;
+    out[p + 1] = m[1] * x + m[5] * y + m[9] * z + m[13] * w;
+    out[p + 2] = m[2] * x + m[6] * y + m[10] * z + m[14] * w;
+    out[p + 3] = m[3] * x + m[7] * y + m[11] * z + m[15] * w;
+  }
+
+  return out;
+};
+
+/**
+ * 3要素の方向ベクトルを変換し、`out` に書き込む。`w = 0` として扱うため平行移動の影響を受けない
+ * @param out 書き込み先。`buffer` と同じでもよい
+ * @param matrix 変換行列
+ * @param buffer 方向ベクトルが並んだバッファ
+ * @param options バッファのレイアウト
+ * @returns `out`
+ * @throws ValidationError レイアウトが不正、またはバッファが足りない
+ * @see transformNormals 法線を変換する場合
+ */
+export const transformDirections = (
+  out: Float32Array,
+  matrix: Mat4,
+  buffer: Float32Array,
+  options: BufferLayout = {},
+): Float32Array => {
+  const { stride, offset, count } = resolveLayout(out, buffer, 3, options);
+  const m = matrix.value;
+
+  for (let i = 0, p = offset; i < count; i++, p += stride) {
+    const x = buffer[p];
+    const y = buffer[p + 1];
+    const z = buffer[p + 2];
+    out[p] = m[0] * x + m[4] * y + m[8] * z;
+    out[p + 1] = m[1] * x + m[5] * y + m[9] * z;
+    out[p + 2] = m[2] * x + m[6] * y + m[10] * z;
+  }
+
+  return out;
+};
+
+/**
+ * 法線を法線行列（左上3x3の逆転置行列）で変換し、`out` に書き込む\
+ * 非一様スケールを含む変換でも、法線が面に垂直なまま保たれる
+ * @param out 書き込み先。`buffer` と同じでもよい
+ * @param matrix モデル行列
+ * @param buffer 法線が並んだバッファ
+ * @param options バッファのレイアウトと、正規化するか
+ * @returns `out`
+ * @throws ValidationError レイアウトが不正、またはバッファが足りない
+ * @throws SingularMatrixError 左上3x3が正則でない
+ * @remarks 長さが0の法線は正規化せず、そのまま書き込む
+ */
+export const transformNormals = (
+  out: Float32Array,
+  matrix: Mat4,
+  buffer: Float32Array,
+  options: NormalTransformOptions = {},
+): Float32Array => {
+  const { stride, offset, count } = resolveLayout(out, buffer, 3, options);
+  const normalize = options.normalize ?? true;
+  const n = mat3.normalFromMat4(matrix).value;
+
+  for (let i = 0, p = offset; i < count; i++, p += stride) {
+    const x = buffer[p];
+    const y = buffer[p + 1];
+    const z = buffer[p + 2];
+    const nx = n[0] * x + n[3] * y + n[6] * z;
+    const ny = n[1] * x + n[4] * y + n[7] * z;
+    const nz = n[2] * x + n[5] * y + n[8] * z;
+    const length = normalize ? Math.hypot(nx, ny, nz) : 0;
+    const scale = length > 0 ? 1 / length : 1;
+    out[p] = nx * scale;
+    out[p + 1] = ny * scale;
+    out[p + 2] = nz * scale;
+  }
+
+  return out;
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  toQuat,
+  fromQuat,
+  toMat4,
+  fromMat4,
+  type EulerOrder,
+  type EulerConvention,
+} from "@/euler";
+import * as mat4 from "@/mat4";
+import * as quat from "@/quat";
+import { ValidationError } from "@/errors";
+import { EPSILON_F32 } from "../epsilon";
+
+const ORDERS: EulerOrder[] = [
+  "XYZ",
+  "XZY",
+  "YXZ",
+  "YZX",
+  "ZXY",
+  "ZYX",
+  "XYX",
+  "XZX",
+  "YXY",
+  "YZY",
+  "ZXZ",
+  "ZYZ",
+];
+const CONVENTIONS: EulerConvention[] = ["intrinsic", "extrinsic"];
+
+const getRotateAxis = (axis: string, rad: number) => {
+  switch (axis) {
+    case "X":
+      return mat4.getRotateX(rad);
+    case "Y":
+      return mat4.getRotateY(rad);
+    default:
+      return mat4.getRotateZ(rad);
+  }
+};
+
+/** q と -q は同じ回転を表すので、符号を揃えてから比較する */
+const expectSameRotation = (actual: quat.Quat, expected: quat.Quat) => {
+  const sign = quat.dot(actual, expected) < 0 ? -1 : 1;
+  expect(actual.value.map(v => v * sign)).toBeCloseMatrix(expected.value, 1e-4);
+};
+
+describe("euler", () => {
+  it("composes intrinsic rotations from the left", () => {
+    const angles: [number, number, number] = [0.3, -0.5, 1.1];
+    const expected = [
+      mat4.getRotateX(angles[0]),
+      mat4.getRotateY(angles[1]),
+      mat4.getRotateZ(angles[2]),
+    ].reduce(mat4.multiply);
+    expect(toMat4(angles, "XYZ", "intrinsic").value).toBeCloseMatrix(
+      expected.value,
+      EPSILON_F32,
+    );
+  });
+
+  it("composes extrinsic rotations from the right", () => {
+    const angles: [number, number, number] = [0.3, -0.5, 1.1];
+    const expected = [
+      mat4.getRotateZ(angles[2]),
+      mat4.getRotateX(angles[1]),
+      mat4.getRotateZ(angles[0]),
+    ].reduce(mat4.multiply);
+    expect(toMat4(angles, "ZXZ", "extrinsic").value).toBeCloseMatrix(
+      expected.value,
+      EPSILON_F32,
+    );
+  });
+
+  it("treats extrinsic as intrinsic in reverse order", () => {
+    expectSameRotation(
+      toQuat([0.1, 0.2, 0.3], "XYZ", "extrinsic"),
+      toQuat([0.3, 0.2, 0.1], "ZYX", "intrinsic"),
+    );
+  });
+
+  it("recovers the angles of every order and convention", () => {
+    for (const order of ORDERS) {
+      const isProper = order[0] === order[2];
+      const angles: [number, number, number] = [
+        0.4,
+        isProper ? 1.2 : -0.7,
+        -2.5,
+      ];
+      for (const convention of CONVENTIONS) {
+        const m = [0, 1, 2]
+          .map(i => getRotateAxis(order[i], angles[i]))
+          .reduce((a, b) =>
+            convention === "intrinsic"
+              ? mat4.multiply(a, b)
+              : mat4.multiply(b, a),
+          );
+        expect(fromMat4(m, order, convention)).toBeCloseMatrix(angles, 1e-4);
+      }
+    }
+  });
+
+  it("round-trips arbitrary rotations", () => {
+    const unitQuat = fc
+      .tuple(
+        fc.double({ min: -1, max: 1, noNaN: true }),
+        fc.double({ min: -1, max: 1, noNaN: true }),
+        fc.double({ min: -1, max: 1, noNaN: true }),
+        fc.double({ min: -1, max: 1, noNaN: true }),
+      )
+      .filter(v => Math.hypot(...v) > 0.1)
+      .map(v => quat.normalize(quat.init(v)));
+
+    fc.assert(
+      fc.property(
+        unitQuat,
+        fc.constantFrom(...ORDERS),
+        fc.constantFrom(...CONVENTIONS),
+        (q, order, convention) => {
+          const angles = fromQuat(q, order, convention);
+          expectSameRotation(toQuat(angles, order, convention), q);
+        },
+      ),
+    );
+  });
+
+  it("assigns the whole rotation to the first angle at gimbal lock", () => {
+    for (const order of ORDERS) {
+      const isProper = order[0] === order[2];
+      for (const middle of isProper
+        ? [0, Math.PI]
+        : [Math.PI / 2, -Math.PI / 2]) {
+        for (const convention of CONVENTIONS) {
+          const q = toQuat([0.5, middle, 0.25], order, convention);
+          const angles = fromQuat(q, order, convention);
+          expect(angles[2]).toBeCloseTo(0, 10);
+          expect(angles[1]).toBeCloseTo(middle, 3);
+          expectSameRotation(toQuat(angles, order, convention), q);
+        }
+      }
+    }
+  });
+
+  it("throws ValidationError for an invalid order", () => {
+    expect(() => toQuat([0, 0, 0], "XXY" as EulerOrder)).toThrow(
+      ValidationError,
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromRowMajor,
+  getIdentity,
+  multiply,
+  multiplyVec3,
+  transpose,
+  determinant,
+  inverse,
+  getTranslation,
+  getRotate,
+  getScale,
+  fromMat4,
+  normalFromMat4,
+  toRowMajorArray,
+  eigSymmetric,
+} from "@/mat3";
+import * as mat4 from "@/mat4";
+import * as vec3 from "@/vec3";
+import { ConvergenceError, SingularMatrixError } from "@/errors";
+import { EPSILON_F32 } from "../epsilon";
+
+describe("mat3: 3x3 Matrix Tests", () => {
+  it("creates a 3x3 matrix from row-major order", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+    expect(matrix.value).toEqual(new Float32Array([1, 4, 7, 2, 5, 8, 3, 6, 9]));
+  });
+
+  it("throws an error if the input is not 3x3", () => {
+    expect(() =>
+      fromRowMajor([
+        [1, 2],
+        [3, 4],
+      ]),
+    ).toThrow("Input must be a 3x3 matrix");
+  });
+
+  it("transposes a matrix", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+    expect(toRowMajorArray(transpose(matrix))).toEqual([
+      1, 4, 7, 2, 5, 8, 3, 6, 9,
+    ]);
+  });
+
+  it("calculates the determinant", () => {
+    const matrix = fromRowMajor([
+      [6, 1, 1],
+      [4, -2, 5],
+      [2, 8, 7],
+    ]);
+    expect(determinant(matrix)).toBe(-306);
+  });
+
+  it("calculates the inverse", () => {
+    const matrix = fromRowMajor([
+      [2, 0, 1],
+      [1, 3, 2],
+      [1, 1, 2],
+    ]);
+    expect(multiply(matrix, inverse(matrix)).value).toBeCloseMatrix(
+      getIdentity().value,
+      EPSILON_F32,
+    );
+  });
+
+  it("throws SingularMatrixError for a singular matrix", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+    expect(() => inverse(matrix)).toThrow(SingularMatrixError);
+  });
+
+  it("composes 2D affine transforms", () => {
+    const matrix = [
+      getTranslation(1, 2),
+      getRotate(Math.PI / 2),
+      getScale(2, 3),
+    ].reduce(multiply);
+    const result = multiplyVec3(matrix, vec3.init([1, 1, 1]));
+    expect(result.value).toBeCloseMatrix([-2, 4, 1], EPSILON_F32);
+  });
+
+  it("extracts the upper-left 3x3 of a Mat4", () => {
+    const matrix = mat4.fromRowMajor([
+      [1, 2, 3, 4],
+      [5, 6, 7, 8],
+      [9, 10, 11, 12],
+      [13, 14, 15, 16],
+    ]);
+    expect(toRowMajorArray(fromMat4(matrix))).toEqual([
+      1, 2, 3, 5, 6, 7, 9, 10, 11,
+    ]);
+  });
+
+  it("derives a normal matrix that keeps normals perpendicular", () => {
+    const model = mat4.multiply(
+      mat4.getTranslation(5, -1, 2),
+      mat4.getScale(2, 1, 1),
+    );
+    // 法線 (1, 1, 0) / sqrt(2) を持つ面は、x方向に2倍すると (1, 2, 0) 方向の法線を持つ
+    const normal = multiplyVec3(normalFromMat4(model), vec3.init([1, 1, 0]));
+    expect(vec3.normalize(normal).value).toBeCloseMatrix(
+      vec3.normalize(vec3.init([1, 2, 0])).value,
+      EPSILON_F32,
+    );
+  });
+});
+
+describe("mat3.eigSymmetric", () => {
+  const symmetric = fromRowMajor([
+    [2, -1, 0],
+    [-1, 2, -1],
+    [0, -1, 2],
+  ]);
+
+  it("finds eigenvalues in descending order", () => {
+    const { values } = eigSymmetric(symmetric);
+    expect(values[0]).toBeCloseTo(2 + Math.SQRT2, 12);
+    expect(values[1]).toBeCloseTo(2, 12);
+    expect(values[2]).toBeCloseTo(2 - Math.SQRT2, 12);
+  });
+
+  it("returns orthonormal eigenvectors", () => {
+    const { values, vectors } = eigSymmetric(symmetric);
+    expect(multiply(transpose(vectors), vectors).value).toBeCloseMatrix(
+      getIdentity().value,
+      EPSILON_F32,
+    );
+    values.forEach((value, i) => {
+      const v = vec3.init(vectors.value.slice(i * 3, i * 3 + 3));
+      expect(multiplyVec3(symmetric, v).value).toBeCloseMatrix(
+        vec3.scale(v, value).value,
+        EPSILON_F32,
+      );
+    });
+  });
+
+  it("returns a diagonal matrix as is", () => {
+    const diagonal = fromRowMajor([
+      [1, 0, 0],
+      [0, 3, 0],
+      [0, 0, 2],
+    ]);
+    const { values, vectors } = eigSymmetric(diagonal);
+    expect(values).toEqual([3, 2, 1]);
+    expect(toRowMajorArray(vectors)).toEqual([0, 0, 1, 1, 0, 0, 0, 1, 0]);
+  });
+
+  it("throws an error when it does not converge", () => {
+    expect(() => eigSymmetric(symmetric, { maxIterations: 0 })).toThrow(
+      ConvergenceError,
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  compose,
+  decompose,
+  fromRowMajor,
+  getIdentity,
+  getRotate,
+  getScale,
+  getTranslation,
+  multiply,
+} from "@/mat4";
+import * as quat from "@/quat";
+import * as vec3 from "@/vec3";
+import { EPSILON_F32 } from "../epsilon";
+
+describe("mat4.decompose", () => {
+  it("decomposes the identity matrix", () => {
+    const result = decompose(getIdentity());
+    expect(result.translation.value).toEqual(new Float32Array([0, 0, 0]));
+    expect(result.rotation.value).toEqual(quat.getIdentity().value);
+    expect(result.scale.value).toEqual(new Float32Array([1, 1, 1]));
+    expect(result.hasNegativeScale).toBe(false);
+    expect(result.hasShear).toBe(false);
+  });
+
+  it("separates translation, rotation and scale", () => {
+    const rotation = quat.fromAxisAngle(vec3.init([0, 0.6, 0.8]), 0.8);
+    const matrix = [
+      getTranslation(3, -2, 5),
+      getRotate(0.8, [0, 0.6, 0.8]),
+      getScale(2, 0.5, 3),
+    ].reduce(multiply);
+    const result = decompose(matrix);
+    expect(result.translation.value).toBeCloseMatrix([3, -2, 5], EPSILON_F32);
+    expect(result.rotation.value).toBeCloseMatrix(rotation.value, EPSILON_F32);
+    expect(result.scale.value).toBeCloseMatrix([2, 0.5, 3], EPSILON_F32);
+  });
+
+  it("detects negative scale", () => {
+    const matrix = multiply(getRotate(1.2, [0.6, 0.8, 0]), getScale(1, -2, 1));
+    const result = decompose(matrix);
+    expect(result.hasNegativeScale).toBe(true);
+    expect(result.hasShear).toBe(false);
+    expect(result.scale.value[0]).toBeLessThan(0);
+    expect(
+      compose(result.translation, result.rotation, result.scale).value,
+    ).toBeCloseMatrix(matrix.value, EPSILON_F32);
+  });
+
+  it("detects shear", () => {
+    const shear = fromRowMajor([
+      [1, 0.5, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1],
+    ]);
+    const result = decompose(shear);
+    expect(result.hasShear).toBe(true);
+    expect(result.hasNegativeScale).toBe(false);
+    expect(quat.length(result.rotation)).toBeCloseTo(1, 6);
+  });
+
+  it("detects shear independently of the axis scales", () => {
+    const rotate = getRotate(0.7, [0.6, 0.8, 0]);
+    const scales = [
+      [1e4, 1e-3, 1],
+      [1e-3, 1, 1e4],
+      [1, 1e4, 1e-3],
+    ] as const;
+    for (const [x, y, z] of scales) {
+      const scaled = multiply(rotate, getScale(x, y, z));
+      expect(decompose(scaled).hasShear).toBe(false);
+
+      // y 軸を x 軸の方向へ 1e-4 ラジアンほど傾ける
+      const sheared = multiply(
+        scaled,
+        fromRowMajor([
+          [1, (1e-4 * y) / x, 0, 0],
+          [0, 1, 0, 0],
+          [0, 0, 1, 0],
+          [0, 0, 0, 1],
+        ]),
+      );
+      expect(decompose(sheared).hasShear).toBe(true);
+    }
+  });
+});
+
+describe("mat4.compose", () => {
+  it("round-trips through decompose", () => {
+    fc.assert(
+      fc.property(
+        fc.tuple(
+          fc.double({ min: -100, max: 100, noNaN: true }),
+          fc.double({ min: -100, max: 100, noNaN: true }),
+          fc.double({ min: -100, max: 100, noNaN: true }),
+        ),
+        fc.tuple(
+          fc.double({ min: -1, max: 1, noNaN: true }),
+          fc.double({ min: -1, max: 1, noNaN: true }),
+          fc.double({ min: 0.1, max: 1, noNaN: true }),
+        ),
+        fc.double({ min: -Math.PI, max: Math.PI, noNaN: true }),
+        fc.tuple(
+          fc.double({ min: 0.1, max: 10, noNaN: true }),
+          fc.double({ min: 0.1, max: 10, noNaN: true }),
+          fc.double({ min: 0.1, max: 10, noNaN: true }),
+        ),
+        (translation, axis, rad, scale) => {
+          const matrix = compose(
+            vec3.init(translation),
+            quat.fromAxisAngle(vec3.init(axis), rad),
+            vec3.init(scale),
+          );
+          const result = decompose(matrix);
+          expect(result.hasShear).toBe(false);
+          expect(result.scale.value).toBeCloseMatrix(scale, 1e-4);
+          expect(
+            compose(result.translation, result.rotation, result.scale).value,
+          ).toBeCloseMatrix(matrix.value, 1e-4);
+        },
+      ),
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  fromRowMajor,
+  getIdentity,
+  getRotate,
+  getScale,
+  getTranslation,
+  multiply,
+  inverse,
+  invertAffine,
+  invertRigid,
+  determinant,
+  toRowMajor2dArray,
+} from "@/mat4";
+import * as mat4Out from "@/mat4Out";
+import * as f64Mat from "@/f64Mat";
+import { SingularMatrixError } from "@/errors";
+import { EPSILON_F32 } from "../epsilon";
+
+const rigid = multiply(getTranslation(3, -2, 5), getRotate(0.8, [0, 0.6, 0.8]));
+const affine = [
+  getTranslation(1, 2, 3),
+  getRotate(-1.3, [1, 0, 0]),
+  getScale(2, 0.5, -3),
+].reduce(multiply);
+
+describe("mat4.determinant", () => {
+  it("calculates the determinant of a 4x4 matrix", () => {
+    const matrix = fromRowMajor([
+      [3, 1, 1, 2],
+      [5, 1, 3, 4],
+      [2, 0, 1, 0],
+      [1, 3, 2, 1],
+    ]);
+    expect(determinant(matrix)).toBe(-22);
+  });
+
+  it("returns 0 for a singular matrix", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3, 4],
+      [5, 6, 7, 8],
+      [9, 10, 11, 12],
+      [13, 14, 15, 16],
+    ]);
+    expect(determinant(matrix)).toBe(0);
+  });
+
+  it("matches the generic implementation", () => {
+    const entry = fc.integer({ min: -20, max: 20 });
+    fc.assert(
+      fc.property(
+        fc.array(fc.array(entry, { minLength: 4, maxLength: 4 }), {
+          minLength: 4,
+          maxLength: 4,
+        }),
+        rows => {
+          expect(determinant(fromRowMajor(rows))).toBeCloseTo(
+            f64Mat.determinant(f64Mat.fromRowMajor(rows)),
+            6,
+          );
+        },
+      ),
+    );
+  });
+});
+
+describe("mat4.inverse", () => {
+  it("calculates the inverse of a 4x4 matrix", () => {
+    const matrix = fromRowMajor([
+      [3, 1, 1, 2],
+      [5, 1, 3, 4],
+      [2, 0, 1, 0],
+      [1, 3, 2, 1],
+    ]);
+    expect(multiply(matrix, inverse(matrix)).value).toBeCloseMatrix(
+      getIdentity().value,
+      EPSILON_F32,
+    );
+  });
+
+  it("throws SingularMatrixError for a singular matrix", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3, 4],
+      [5, 6, 7, 8],
+      [9, 10, 11, 12],
+      [13, 14, 15, 16],
+    ]);
+    expect(() => inverse(matrix)).toThrow(SingularMatrixError);
+  });
+
+  it("inverts a matrix with tiny but non-zero determinant", () => {
+    const matrix = getScale(1e-3, 1e-3, 1e-3);
+    expect(toRowMajor2dArray(inverse(matrix))[0][0]).toBeCloseTo(1000, 2);
+  });
+
+  it("inverts in place", () => {
+    const out = fromRowMajor([
+      [3, 1, 1, 2],
+      [5, 1, 3, 4],
+      [2, 0, 1, 0],
+      [1, 3, 2, 1],
+    ]);
+    const expected = inverse(out);
+    mat4Out.inverse(out, out);
+    expect(out.value).toEqual(expected.value);
+  });
+});
+
+describe("mat4.invertAffine / mat4.invertRigid", () => {
+  it("matches the general inverse for an affine transform", () => {
+    expect(invertAffine(affine).value).toBeCloseMatrix(
+      inverse(affine).value,
+      EPSILON_F32,
+    );
+  });
+
+  it("throws SingularMatrixError for a degenerate affine transform", () => {
+    expect(() => invertAffine(getScale(1, 0, 1))).toThrow(SingularMatrixError);
+  });
+
+  it("matches the general inverse for a rigid transform", () => {
+    expect(invertRigid(rigid).value).toBeCloseMatrix(
+      inverse(rigid).value,
+      EPSILON_F32,
+    );
+  });
+
+  it("inverts in place", () => {
+    const out = multiply(rigid, getIdentity());
+    mat4Out.invertRigid(out, out);
+    expect(multiply(rigid, out).value).toBeCloseMatrix(
+      getIdentity().value,
+      EPSILON_F32,
+    );
+    const out2 = multiply(affine, getIdentity());
+    mat4Out.invertAffine(out2, out2);
+    expect(multiply(affine, out2).value).toBeCloseMatrix(
+      getIdentity().value,
+      EPSILON_F32,
+    );
+  });
+});
@@ -1,14 +1,29 @@
 import { describe, expect, it } from "vitest";
 import {
+  isMat4,
+  fromColumnMajor,
   fromRowMajor,
   add,
   multiplyScalar,
   getIdentity,
   getTranslation,
+  getRotateX,
+  getRotateY,
   getRotateZ,
   getPerspective,
   toRowMajorArray,
+  getLookAt,
+  multiply,
+  multiplyVec4,
+  transformPoint,
+  transformDirection,
+  transpose,
+  transposeInPlace,
 } from "@/mat4";
+import * as vec3 from "@/vec3";
+import * as vec4 from "@/vec4";
+import * as f32Mat from "@/f32Mat";
+import * as f64Mat from "@/f64Mat";
 
 describe("mat4: 4x4 Matrix Tests", () => {
   it("creates a 4x4 matrix from row-major order", () => {
@@ -24,6 +39,36 @@ describe("mat4: 4x4 Matrix Tests", () => {
     );
   });
 
+  it("creates a 4x4 matrix from column-major order", () => {
+    const matrix = fromColumnMajor([
+      [1, 5, 9, 13],
+      [2, 6, 10, 14],
+      [3, 7, 11, 15],
+      [4, 8, 12, 16],
+    ]);
+    expect(toRowMajorArray(matrix)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16,
+    ]);
+  });
+
+  it("throws an error if the column-major input is not 4x4", () => {
+    expect(() =>
+      fromColumnMajor([
+        [1, 2, 3],
+        [4, 5, 6],
+        [7, 8, 9],
+        [10, 11, 12],
+      ]),
+    ).toThrow("Input must be a 4x4 matrix");
+  });
+
+  it("checks whether a value is a Mat4", () => {
+    expect(isMat4(getIdentity())).toBe(true);
+    expect(isMat4(f32Mat.getIdentity(3))).toBe(false);
+    expect(isMat4(f64Mat.getIdentity(4))).toBe(false);
+    expect(isMat4(null)).toBe(false);
+  });
+
   it("throws an error if the input is not 4x4", () => {
     expect(() =>
       fromRowMajor([
@@ -90,8 +135,103 @@ describe("mat4: 4x4 Matrix Tests", () => {
     );
   });
 
+  it("creates an X-axis rotation matrix", () => {
+    const rotation = getRotateX(Math.PI / 2);
+    expect(rotation.value).toBeCloseMatrix(
+      new Float32Array([1, 0, 0, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 1]),
+      1e-16,
+    );
+  });
+
+  it("creates a Y-axis rotation matrix", () => {
+    const rotation = getRotateY(Math.PI / 2);
+    expect(rotation.value).toBeCloseMatrix(
+      new Float32Array([0, 0, -1, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 1]),
+      1e-16,
+    );
+  });
+
+  it("rotates counterclockwise about each axis like getRotateZ", () => {
+    const quarter = Math.PI / 2;
+    expect(
+      transformDirection(getRotateX(quarter), vec3.init([0, 1, 0])).value,
+    ).toBeCloseMatrix([0, 0, 1], 1e-6);
+    expect(
+      transformDirection(getRotateY(quarter), vec3.init([0, 0, 1])).value,
+    ).toBeCloseMatrix([1, 0, 0], 1e-6);
+    expect(
+      transformDirection(getRotateZ(quarter), vec3.init([1, 0, 0])).value,
+    ).toBeCloseMatrix([0, 1, 0], 1e-6);
+  });
+
   it("creates a perspective projection matrix", () => {
     const perspective = getPerspective(Math.PI / 4, 1, 0.1, 100);
     expect(perspective.value).toBeDefined();
   });
+
+  it("multiplies a 4x4 matrix by a Vec4", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3, 4],
+      [5, 6, 7, 8],
+      [9, 10, 11, 12],
+      [13, 14, 15, 16],
+    ]);
+    const result = multiplyVec4(matrix, vec4.init([1, 0, -1, 2]));
+    expect(result.value).toEqual(new Float32Array([6, 14, 22, 30]));
+  });
+
+  it("transforms a point with translation", () => {
+    const matrix = multiply(getTranslation(1, 2, 3), getRotateZ(Math.PI / 2));
+    const result = transformPoint(matrix, vec3.init([1, 0, 0]));
+    expect(result.value).toBeCloseMatrix([1, 3, 3], 1e-6);
+  });
+
+  it("transforms a point with perspective divide", () => {
+    const perspective = getPerspective(Math.PI / 2, 1, 1, 10);
+    const near = transformPoint(perspective, vec3.init([0, 0, -1]));
+    const far = transformPoint(perspective, vec3.init([0, 0, -10]));
+    expect(near.value[2]).toBeCloseTo(-1, 5);
+    expect(far.value[2]).toBeCloseTo(1, 5);
+  });
+
+  it("transforms a direction without translation", () => {
+    const result = transformDirection(
+      getTranslation(1, 2, 3),
+      vec3.init([0, 1, 0]),
+    );
+    expect(result.value).toEqual(new Float32Array([0, 1, 0]));
+  });
+
+  it("creates a view matrix that moves the eye to the origin", () => {
+    const view = getLookAt([0, 2, 5], [0, 0, 0], [0, 1, 0]);
+    expect(transformPoint(view, vec3.init([0, 2, 5])).value).toBeCloseMatrix(
+      [0, 0, 0],
+      1e-6,
+    );
+    const target = transformPoint(view, vec3.init([0, 0, 0]));
+    expect(target.value[0]).toBeCloseTo(0, 6);
+    expect(target.value[1]).toBeCloseTo(0, 6);
+    expect(target.value[2]).toBeCloseTo(-Math.sqrt(29), 5);
+  });
+});
+
+describe("mat4.transpose", () => {
+  const rowMajor = [
+    [1, 2, 3, 4],
+    [5, 6, 7, 8],
+    [9, 10, 11, 12],
+    [13, 14, 15, 16],
+  ];
+
+  it("swaps rows and columns", () => {
+    const matrix = fromRowMajor(rowMajor);
+    expect(transpose(matrix).value).toEqual(fromColumnMajor(rowMajor).value);
+    expect(toRowMajorArray(matrix)).toEqual(rowMajor.flat());
+  });
+
+  it("transposes in place", () => {
+    const matrix = fromRowMajor(rowMajor);
+    expect(transposeInPlace(matrix)).toBe(matrix);
+    expect(matrix.value).toEqual(fromColumnMajor(rowMajor).value);
+  });
 });
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import * as mat4 from "@/mat4";
+import * as mat4Out from "@/mat4Out";
+
+const a = mat4.fromRowMajor([
+  [1, 2, 3, 4],
+  [5, 6, 7, 8],
+  [9, 10, 11, 12],
+  [13, 14, 15, 16],
+]);
+const b = mat4.fromRowMajor([
+  [2, 0, 1, 3],
+  [-1, 4, 0, 2],
+  [0, 5, -2, 1],
+  [3, 1, 1, 0],
+]);
+
+describe("mat4Out: operations writing into a destination matrix", () => {
+  it("writes the result into out and returns it", () => {
+    const out = mat4.getIdentity();
+    const result = mat4Out.multiply(out, a, b);
+    expect(result).toBe(out);
+    expect(out.value).toEqual(mat4.multiply(a, b).value);
+  });
+
+  it("multiplies correctly when out is the left operand", () => {
+    const expected = mat4.multiply(a, b);
+    const out = mat4.getClone(a);
+    mat4Out.multiply(out, out, b);
+    expect(out.value).toEqual(expected.value);
+  });
+
+  it("multiplies correctly when out is the right operand", () => {
+    const expected = mat4.multiply(a, b);
+    const out = mat4.getClone(b);
+    mat4Out.multiply(out, a, out);
+    expect(out.value).toEqual(expected.value);
+  });
+
+  it("squares a matrix in place", () => {
+    const expected = mat4.multiply(a, a);
+    const out = mat4.getClone(a);
+    mat4Out.multiply(out, out, out);
+    expect(out.value).toEqual(expected.value);
+  });
+
+  it("adds, subtracts and scales in place", () => {
+    const out = mat4.getClone(a);
+    mat4Out.add(out, out, b);
+    expect(out.value).toEqual(mat4.add(a, b).value);
+    mat4Out.subtract(out, out, b);
+    expect(out.value).toEqual(a.value);
+    mat4Out.multiplyScalar(out, out, 2);
+    expect(out.value).toEqual(mat4.multiplyScalar(a, 2).value);
+  });
+
+  it("overwrites out with builders", () => {
+    const out = mat4.getClone(a);
+    expect(mat4Out.getIdentity(out).value).toEqual(mat4.getIdentity().value);
+    expect(mat4Out.getRotateY(out, 0.5).value).toEqual(
+      mat4.getRotateY(0.5).value,
+    );
+    expect(
+      mat4Out.getLookAt(out, [0, 2, 5], [0, 0, 0], [0, 1, 0]).value,
+    ).toBeCloseMatrix(
+      mat4.getLookAt([0, 2, 5], [0, 0, 0], [0, 1, 0]).value,
+      1e-7,
+    );
+  });
+
+  it("converts handedness in place", () => {
+    const out = mat4.getClone(a);
+    mat4Out.convertHandedness(out, out);
+    expect(out.value).toEqual(mat4.convertHandedness(a).value);
+  });
+
+  it("transposes in place", () => {
+    const out = mat4.getClone(a);
+    mat4Out.transpose(out, out);
+    expect(out.value).toEqual(mat4.transpose(a).value);
+  });
+
+  it("copies a matrix", () => {
+    const out = mat4.getIdentity();
+    mat4Out.copy(out, a);
+    expect(out.value).toEqual(a.value);
+    expect(out.value).not.toBe(a.value);
+  });
+});
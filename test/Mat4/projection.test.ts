@@ -0,0 +1,277 @@
+import { describe, expect, it } from "vitest";
+import {
+  getPerspective,
+  getOrthographic,
+  getFrustum,
+  getPerspectiveReverseZ,
+  getPerspectiveInfinite,
+  getPerspectiveInfiniteReverseZ,
+  convertDepthRange,
+  convertHandedness,
+  getLookAt,
+  getTranslation,
+  getRotateY,
+  multiply,
+  transformPoint,
+} from "@/mat4";
+import * as vec3 from "@/vec3";
+import { EPSILON_F32 } from "../epsilon";
+
+const project = (
+  matrix: ReturnType<typeof getPerspective>,
+  point: [number, number, number],
+) => transformPoint(matrix, vec3.init(point)).value;
+
+describe("mat4.getOrthographic", () => {
+  it("maps the box corners to the clip cube", () => {
+    const ortho = getOrthographic(-2, 6, -1, 3, 0.5, 10);
+    expect(project(ortho, [-2, -1, -0.5])).toBeCloseMatrix(
+      [-1, -1, -1],
+      EPSILON_F32,
+    );
+    expect(project(ortho, [6, 3, -10])).toBeCloseMatrix([1, 1, 1], EPSILON_F32);
+  });
+
+  it("keeps w = 1", () => {
+    const ortho = getOrthographic(-1, 1, -1, 1, 1, 100);
+    expect(ortho.value[3]).toBe(0);
+    expect(ortho.value[11]).toBe(0);
+    expect(ortho.value[15]).toBe(1);
+  });
+});
+
+describe("mat4.getFrustum", () => {
+  it("equals getPerspective for a symmetric frustum", () => {
+    const near = 0.1;
+    const far = 100;
+    const fovY = Math.PI / 3;
+    const aspect = 16 / 9;
+    const top = near * Math.tan(fovY / 2);
+    const right = top * aspect;
+    expect(
+      getFrustum(-right, right, -top, top, near, far).value,
+    ).toBeCloseMatrix(getPerspective(fovY, aspect, near, far).value, 1e-5);
+  });
+
+  it("maps an off-axis near plane to the clip square", () => {
+    const frustum = getFrustum(-0.1, 0.3, -0.2, 0.1, 0.5, 20);
+    expect(project(frustum, [-0.1, -0.2, -0.5])).toBeCloseMatrix(
+      [-1, -1, -1],
+      EPSILON_F32,
+    );
+    expect(project(frustum, [0.3, 0.1, -0.5])).toBeCloseMatrix(
+      [1, 1, -1],
+      EPSILON_F32,
+    );
+    // 遠平面上の点は、近平面の範囲を far / near 倍した位置で端に来る
+    expect(project(frustum, [0.3 * 40, 0.1 * 40, -20])).toBeCloseMatrix(
+      [1, 1, 1],
+      1e-4,
+    );
+  });
+});
+
+describe("mat4.getPerspective variants", () => {
+  const fovY = Math.PI / 2;
+
+  it("maps near and far to -1 and 1", () => {
+    const perspective = getPerspective(fovY, 1, 0.5, 50);
+    expect(project(perspective, [0, 0, -0.5])[2]).toBeCloseTo(-1, 5);
+    expect(project(perspective, [0, 0, -50])[2]).toBeCloseTo(1, 5);
+  });
+
+  it("reverses depth", () => {
+    const perspective = getPerspectiveReverseZ(fovY, 1, 0.5, 50, {
+      depthRange: "negativeOneToOne",
+    });
+    expect(project(perspective, [0, 0, -0.5])[2]).toBeCloseTo(1, 5);
+    expect(project(perspective, [0, 0, -50])[2]).toBeCloseTo(-1, 5);
+    expect(project(perspective, [1, 1, -1])).toBeCloseMatrix(
+      project(getPerspective(fovY, 1, 0.5, 50), [1, 1, -1]).map((v, i) =>
+        i === 2 ? -v : v,
+      ),
+      EPSILON_F32,
+    );
+  });
+
+  it("places the far plane at infinity", () => {
+    const perspective = getPerspectiveInfinite(fovY, 1, 0.5);
+    expect(project(perspective, [0, 0, -0.5])[2]).toBeCloseTo(-1, 5);
+    expect(project(perspective, [0, 0, -1e6])[2]).toBeCloseTo(1, 5);
+    expect(project(perspective, [0, 0, -1e6])[2]).toBeLessThan(1);
+  });
+
+  it("places the far plane at infinity with reversed depth", () => {
+    const perspective = getPerspectiveInfiniteReverseZ(fovY, 1, 0.5, {
+      depthRange: "negativeOneToOne",
+    });
+    expect(project(perspective, [0, 0, -0.5])[2]).toBeCloseTo(1, 5);
+    expect(project(perspective, [0, 0, -1e6])[2]).toBeCloseTo(-1, 5);
+    expect(project(perspective, [0, 0, -1e6])[2]).toBeGreaterThan(-1);
+  });
+
+  it("defaults reversed depth to the zeroToOne range", () => {
+    const zeroToOne = { depthRange: "zeroToOne" } as const;
+    expect(getPerspectiveReverseZ(fovY, 1, 0.5, 50).value).toEqual(
+      getPerspectiveReverseZ(fovY, 1, 0.5, 50, zeroToOne).value,
+    );
+    expect(getPerspectiveInfiniteReverseZ(fovY, 1, 0.5).value).toEqual(
+      getPerspectiveInfiniteReverseZ(fovY, 1, 0.5, zeroToOne).value,
+    );
+    const perspective = getPerspectiveReverseZ(fovY, 1, 0.5, 50, {
+      handedness: "rightHanded",
+    });
+    expect(project(perspective, [0, 0, -0.5])[2]).toBeCloseTo(1, 5);
+    expect(project(perspective, [0, 0, -50])[2]).toBeCloseTo(0, 5);
+  });
+});
+
+describe("depth range", () => {
+  const zeroToOne = { depthRange: "zeroToOne" } as const;
+  const fovY = Math.PI / 3;
+
+  it("maps near and far to 0 and 1", () => {
+    const perspective = getPerspective(fovY, 1.5, 0.5, 50, zeroToOne);
+    expect(project(perspective, [0, 0, -0.5])[2]).toBeCloseTo(0, 5);
+    expect(project(perspective, [0, 0, -50])[2]).toBeCloseTo(1, 5);
+
+    const ortho = getOrthographic(-1, 1, -1, 1, 2, 10, zeroToOne);
+    expect(project(ortho, [0, 0, -2])[2]).toBeCloseTo(0, 5);
+    expect(project(ortho, [0, 0, -10])[2]).toBeCloseTo(1, 5);
+
+    const frustum = getFrustum(-0.1, 0.3, -0.2, 0.1, 0.5, 20, zeroToOne);
+    expect(project(frustum, [0, 0, -0.5])[2]).toBeCloseTo(0, 5);
+    expect(project(frustum, [0, 0, -20])[2]).toBeCloseTo(1, 5);
+  });
+
+  it("maps reversed depth to 1 and 0", () => {
+    const perspective = getPerspectiveReverseZ(fovY, 1.5, 0.5, 50, zeroToOne);
+    expect(project(perspective, [0, 0, -0.5])[2]).toBeCloseTo(1, 5);
+    expect(project(perspective, [0, 0, -50])[2]).toBeCloseTo(0, 5);
+
+    const infinite = getPerspectiveInfiniteReverseZ(fovY, 1.5, 0.5, zeroToOne);
+    expect(project(infinite, [0, 0, -0.5])[2]).toBeCloseTo(1, 5);
+    expect(project(infinite, [0, 0, -1e6])[2]).toBeCloseTo(0, 5);
+    expect(infinite.value[10]).toBe(0);
+    expect(infinite.value[14]).toBeCloseTo(0.5, 7);
+  });
+
+  it("keeps far depths distinguishable in float32 only with zeroToOne", () => {
+    // ウィンドウ座標の深度。float32 の深度バッファに書き込まれる値
+    const windowDepth = (
+      matrix: ReturnType<typeof getPerspective>,
+      z: number,
+      negativeOneToOne: boolean,
+    ) => {
+      const ndc = project(matrix, [0, 0, z])[2];
+      return negativeOneToOne ? Math.fround(0.5 * ndc + 0.5) : ndc;
+    };
+    const reversed = getPerspectiveInfiniteReverseZ(fovY, 1.5, 0.1, zeroToOne);
+    expect(windowDepth(reversed, -5000, false)).not.toBe(
+      windowDepth(reversed, -5000.5, false),
+    );
+    const legacy = getPerspectiveInfiniteReverseZ(fovY, 1.5, 0.1, {
+      depthRange: "negativeOneToOne",
+    });
+    expect(windowDepth(legacy, -5000, true)).toBe(
+      windowDepth(legacy, -5000.5, true),
+    );
+  });
+
+  it("keeps x and y unchanged", () => {
+    const a = getPerspectiveInfinite(fovY, 1.5, 0.5);
+    const b = getPerspectiveInfinite(fovY, 1.5, 0.5, zeroToOne);
+    expect(project(b, [1, 2, -3]).slice(0, 2)).toBeCloseMatrix(
+      project(a, [1, 2, -3]).slice(0, 2),
+      EPSILON_F32,
+    );
+  });
+
+  it("converts an existing projection matrix", () => {
+    const gl = getPerspective(fovY, 1.5, 0.5, 50);
+    const gpu = getPerspective(fovY, 1.5, 0.5, 50, zeroToOne);
+    expect(
+      convertDepthRange(gl, "negativeOneToOne", "zeroToOne").value,
+    ).toBeCloseMatrix(gpu.value, EPSILON_F32);
+    expect(
+      convertDepthRange(gpu, "zeroToOne", "negativeOneToOne").value,
+    ).toBeCloseMatrix(gl.value, EPSILON_F32);
+    expect(
+      convertDepthRange(gl, "negativeOneToOne", "negativeOneToOne").value,
+    ).toEqual(gl.value);
+  });
+});
+
+describe("handedness", () => {
+  const fovY = Math.PI / 3;
+  const leftHanded = { handedness: "leftHanded" } as const;
+
+  it("looks down +Z in left-handed projections", () => {
+    const perspective = getPerspective(fovY, 1.5, 0.5, 50, leftHanded);
+    expect(perspective.value[11]).toBe(1);
+    expect(project(perspective, [0, 0, 0.5])[2]).toBeCloseTo(-1, 5);
+    expect(project(perspective, [0, 0, 50])[2]).toBeCloseTo(1, 5);
+
+    const ortho = getOrthographic(-2, 6, -1, 3, 0.5, 10, leftHanded);
+    expect(project(ortho, [-2, -1, 0.5])).toBeCloseMatrix(
+      [-1, -1, -1],
+      EPSILON_F32,
+    );
+    expect(project(ortho, [6, 3, 10])).toBeCloseMatrix([1, 1, 1], EPSILON_F32);
+
+    const frustum = getFrustum(-0.1, 0.3, -0.2, 0.1, 0.5, 20, leftHanded);
+    expect(project(frustum, [-0.1, -0.2, 0.5])).toBeCloseMatrix(
+      [-1, -1, -1],
+      EPSILON_F32,
+    );
+  });
+
+  it("combines with the depth range", () => {
+    const options = {
+      handedness: "leftHanded",
+      depthRange: "zeroToOne",
+    } as const;
+    const perspective = getPerspectiveReverseZ(fovY, 1.5, 0.5, 50, options);
+    expect(project(perspective, [0, 0, 0.5])[2]).toBeCloseTo(1, 5);
+    expect(project(perspective, [0, 0, 50])[2]).toBeCloseTo(0, 5);
+
+    const infinite = getPerspectiveInfinite(fovY, 1.5, 0.5, options);
+    expect(project(infinite, [0, 0, 0.5])[2]).toBeCloseTo(0, 5);
+    expect(project(infinite, [0, 0, 1e6])[2]).toBeCloseTo(1, 5);
+  });
+
+  it("gives the same clip coordinates for a flipped scene", () => {
+    const point: [number, number, number] = [1, -2, 3];
+    const flipped: [number, number, number] = [1, -2, -3];
+    const rh = multiply(
+      getPerspective(fovY, 1.5, 0.5, 50),
+      getLookAt([0, 2, 10], [0, 0, 0], [0, 1, 0]),
+    );
+    const lh = multiply(
+      getPerspective(fovY, 1.5, 0.5, 50, leftHanded),
+      getLookAt([0, 2, -10], [0, 0, 0], [0, 1, 0], leftHanded),
+    );
+    expect(project(lh, flipped)).toBeCloseMatrix(
+      project(rh, point),
+      EPSILON_F32,
+    );
+  });
+
+  it("places the target in front of a left-handed camera", () => {
+    const view = getLookAt([0, 0, -5], [0, 0, 0], [0, 1, 0], leftHanded);
+    expect(project(view, [0, 0, 0])).toBeCloseMatrix([0, 0, 5], EPSILON_F32);
+    expect(project(view, [1, 0, 0])).toBeCloseMatrix([1, 0, 5], EPSILON_F32);
+  });
+
+  it("converts transforms between conventions", () => {
+    const transform = multiply(getTranslation(1, 2, 3), getRotateY(0.4));
+    const converted = convertHandedness(transform);
+    expect(project(converted, [4, 5, -6])).toBeCloseMatrix(
+      Array.from(project(transform, [4, 5, 6])).map((v, i) =>
+        i === 2 ? -v : v,
+      ),
+      EPSILON_F32,
+    );
+    expect(convertHandedness(converted).value).toEqual(transform.value);
+  });
+});
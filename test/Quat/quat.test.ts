@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  init,
+  getIdentity,
+  fromAxisAngle,
+  toAxisAngle,
+  multiply,
+  conjugate,
+  inverse,
+  normalize,
+  length,
+  nlerp,
+  slerp,
+  rotateVec3,
+  toMat3,
+  toMat4,
+  fromMat3,
+  fromMat4,
+  type Quat,
+} from "@/quat";
+import * as mat4 from "@/mat4";
+import * as vec3 from "@/vec3";
+import { EPSILON_F32 } from "../epsilon";
+
+const X = vec3.init([1, 0, 0]);
+const Y = vec3.init([0, 1, 0]);
+const Z = vec3.init([0, 0, 1]);
+
+/** q と -q は同じ回転を表すので、符号を揃えてから比較する */
+const expectSameRotation = (actual: Quat, expected: Quat) => {
+  const sign = Math.sign(
+    actual.value.reduce((sum, v, i) => sum + v * expected.value[i], 0),
+  );
+  expect(actual.value.map(v => v * sign)).toBeCloseMatrix(
+    expected.value,
+    EPSILON_F32,
+  );
+};
+
+describe("quat", () => {
+  it("rotates a vector around an axis", () => {
+    const q = fromAxisAngle(Z, Math.PI / 2);
+    expect(rotateVec3(q, X).value).toBeCloseMatrix([0, 1, 0], EPSILON_F32);
+  });
+
+  it("normalizes the axis", () => {
+    const q = fromAxisAngle(vec3.init([0, 0, 5]), Math.PI / 3);
+    expect(length(q)).toBeCloseTo(1, 6);
+  });
+
+  it("recovers the axis and angle", () => {
+    const { axis, angle } = toAxisAngle(fromAxisAngle(Y, 1.2));
+    expect(axis.value).toBeCloseMatrix([0, 1, 0], EPSILON_F32);
+    expect(angle).toBeCloseTo(1.2, 5);
+  });
+
+  it("composes rotations with multiply (right operand first)", () => {
+    const qx = fromAxisAngle(X, Math.PI / 2);
+    const qz = fromAxisAngle(Z, Math.PI / 2);
+    // X軸回りで Y -> Z、その後 Z 軸回りでは Z のまま
+    expect(rotateVec3(multiply(qz, qx), Y).value).toBeCloseMatrix(
+      [0, 0, 1],
+      EPSILON_F32,
+    );
+    // Z軸回りで Y -> -X、その後 X 軸回りでは -X のまま
+    expect(rotateVec3(multiply(qx, qz), Y).value).toBeCloseMatrix(
+      [-1, 0, 0],
+      EPSILON_F32,
+    );
+  });
+
+  it("returns the identity when multiplied by its inverse", () => {
+    const q = init([1, 2, 3, 4]);
+    expectSameRotation(multiply(q, inverse(q)), getIdentity());
+    const unit = normalize(q);
+    expectSameRotation(multiply(unit, conjugate(unit)), getIdentity());
+  });
+
+  it("interpolates with slerp and nlerp", () => {
+    const a = getIdentity();
+    const b = fromAxisAngle(Y, Math.PI / 2);
+    expectSameRotation(slerp(a, b, 0.5), fromAxisAngle(Y, Math.PI / 4));
+    expectSameRotation(slerp(a, b, 0), a);
+    expectSameRotation(slerp(a, b, 1), b);
+    expectSameRotation(nlerp(a, b, 0.5), fromAxisAngle(Y, Math.PI / 4));
+  });
+
+  it("takes the shortest path when interpolating", () => {
+    const a = fromAxisAngle(Y, 0.1);
+    const b = init(fromAxisAngle(Y, 0.3).value.map(v => -v));
+    expectSameRotation(slerp(a, b, 0.5), fromAxisAngle(Y, 0.2));
+  });
+
+  it("matches the rotation matrices built by mat4", () => {
+    expect(toMat4(fromAxisAngle(X, 0.7)).value).toBeCloseMatrix(
+      mat4.getRotateX(0.7).value,
+      EPSILON_F32,
+    );
+    expect(toMat4(fromAxisAngle(Y, 0.7)).value).toBeCloseMatrix(
+      mat4.getRotateY(0.7).value,
+      EPSILON_F32,
+    );
+    expect(toMat4(fromAxisAngle(Z, 0.7)).value).toBeCloseMatrix(
+      mat4.getRotateZ(0.7).value,
+      EPSILON_F32,
+    );
+    expect(toMat4(fromAxisAngle(X, 0.7)).value).toBeCloseMatrix(
+      mat4.getRotate(0.7, [1, 0, 0]).value,
+      EPSILON_F32,
+    );
+  });
+
+  it("round-trips through Mat3 and Mat4", () => {
+    const unitQuat = fc
+      .tuple(
+        fc.double({ min: -1, max: 1, noNaN: true }),
+        fc.double({ min: -1, max: 1, noNaN: true }),
+        fc.double({ min: -1, max: 1, noNaN: true }),
+        fc.double({ min: -1, max: 1, noNaN: true }),
+      )
+      .filter(v => Math.hypot(...v) > 0.1)
+      .map(v => normalize(init(v)));
+
+    fc.assert(
+      fc.property(unitQuat, q => {
+        expectSameRotation(fromMat3(toMat3(q)), q);
+        expectSameRotation(fromMat4(toMat4(q)), q);
+      }),
+    );
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import * as vec2 from "@/vec2";
+import * as vec3 from "@/vec3";
+import * as vec4 from "@/vec4";
+import { EPSILON_F32 } from "../epsilon";
+
+describe("vec2", () => {
+  it("adds and subtracts vectors", () => {
+    const a = vec2.init([1, 2]);
+    const b = vec2.init([3, 5]);
+    expect(vec2.add(a, b).value).toEqual(new Float32Array([4, 7]));
+    expect(vec2.subtract(a, b).value).toEqual(new Float32Array([-2, -3]));
+  });
+
+  it("calculates the length", () => {
+    expect(vec2.length(vec2.init([3, 4]))).toBe(5);
+  });
+
+  it("creates a zero vector", () => {
+    expect(vec2.getZero().value).toEqual(new Float32Array([0, 0]));
+    expect(vec2.init().value).toEqual(new Float32Array([0, 0]));
+  });
+
+  it("scales a vector", () => {
+    const result = vec2.scale(vec2.init([1, -2]), 3);
+    expect(result.value).toEqual(new Float32Array([3, -6]));
+    expect(vec2.scale(vec2.init([1, -2]), 0).value).toEqual(
+      new Float32Array([0, -0]),
+    );
+  });
+
+  it("calculates the dot product", () => {
+    expect(vec2.dot(vec2.init([1, 2]), vec2.init([3, -4]))).toBe(-5);
+    expect(vec2.dot(vec2.init([1, 0]), vec2.init([0, 1]))).toBe(0);
+  });
+
+  it("normalizes a vector", () => {
+    const result = vec2.normalize(vec2.init([-3, 4]));
+    expect(result.value).toBeCloseMatrix([-0.6, 0.8], EPSILON_F32);
+    expect(vec2.length(result)).toBeCloseTo(1, 6);
+  });
+
+  it("returns NaN components when normalizing a zero vector", () => {
+    const result = vec2.normalize(vec2.getZero());
+    expect(Array.from(result.value).every(Number.isNaN)).toBe(true);
+  });
+
+  it("does not modify the arguments", () => {
+    const a = vec2.init([1, 2]);
+    vec2.add(a, a);
+    vec2.scale(a, 2);
+    vec2.normalize(a);
+    expect(a.value).toEqual(new Float32Array([1, 2]));
+  });
+
+  it("compares vectors with precision", () => {
+    const a = vec2.init([1, 2]);
+    expect(vec2.equals(a, vec2.init([1, 2]))).toBe(true);
+    expect(vec2.equals(a, vec2.init([1, 2.0001]))).toBe(false);
+    expect(vec2.equals(a, vec2.init([1, 2.0001]), 3)).toBe(true);
+    expect(vec2.equals(a, vec2.init([1, 2.01]), 3)).toBe(false);
+  });
+
+  it("returns a deep copy", () => {
+    const a = vec2.init([1, 2]);
+    const b = vec2.getClone(a);
+    b.value[0] = 10;
+    expect(a.value[0]).toBe(1);
+    expect(vec2.isVec2(b)).toBe(true);
+  });
+
+  it("checks whether a value is a Vec2", () => {
+    expect(vec2.isVec2(vec2.init([1, 2]))).toBe(true);
+    expect(vec2.isVec2(vec3.init([1, 2, 3]))).toBe(false);
+    expect(vec2.isVec2({ type: "Vec2", value: [1, 2] })).toBe(false);
+    expect(vec2.isVec2(null)).toBe(false);
+  });
+
+  it("formats a vector as text", () => {
+    expect(vec2.toString(vec2.init([1, -0.5]))).toBe("1.000\t-0.500");
+  });
+});
+
+describe("vec3", () => {
+  it("creates a zero vector", () => {
+    expect(vec3.getZero().value).toEqual(new Float32Array([0, 0, 0]));
+  });
+
+  it("scales a vector", () => {
+    const result = vec3.scale(vec3.init([1, -2, 3]), 2);
+    expect(result.value).toEqual(new Float32Array([2, -4, 6]));
+  });
+
+  it("calculates the dot product", () => {
+    expect(vec3.dot(vec3.init([1, 2, 3]), vec3.init([4, -5, 6]))).toBe(12);
+  });
+
+  it("calculates the cross product", () => {
+    const x = vec3.init([1, 0, 0]);
+    const y = vec3.init([0, 1, 0]);
+    expect(vec3.cross(x, y).value).toEqual(new Float32Array([0, 0, 1]));
+    expect(vec3.cross(y, x).value).toEqual(new Float32Array([0, 0, -1]));
+  });
+
+  it("normalizes a vector", () => {
+    const result = vec3.normalize(vec3.init([3, 0, 4]));
+    expect(result.value).toBeCloseMatrix([0.6, 0, 0.8], EPSILON_F32);
+    expect(vec3.length(result)).toBeCloseTo(1, 6);
+  });
+
+  it("compares vectors with precision", () => {
+    const a = vec3.init([1, 2, 3]);
+    const b = vec3.init([1, 2, 3.0001]);
+    expect(vec3.equals(a, b)).toBe(false);
+    expect(vec3.equals(a, b, 3)).toBe(true);
+  });
+
+  it("returns a deep copy", () => {
+    const a = vec3.init([1, 2, 3]);
+    const b = vec3.getClone(a);
+    b.value[0] = 10;
+    expect(a.value[0]).toBe(1);
+  });
+
+  it("checks whether a value is a Vec3", () => {
+    expect(vec3.isVec3(vec3.init([1, 2, 3]))).toBe(true);
+    expect(vec3.isVec3(vec4.init([1, 2, 3, 4]))).toBe(false);
+    expect(vec3.isVec3(undefined)).toBe(false);
+  });
+});
+
+describe("vec4", () => {
+  it("creates a zero vector", () => {
+    expect(vec4.getZero().value).toEqual(new Float32Array([0, 0, 0, 0]));
+  });
+
+  it("adds and subtracts vectors", () => {
+    const a = vec4.init([1, 2, 3, 4]);
+    const b = vec4.init([5, -6, 7, 0.5]);
+    expect(vec4.add(a, b).value).toEqual(new Float32Array([6, -4, 10, 4.5]));
+    expect(vec4.subtract(a, b).value).toEqual(
+      new Float32Array([-4, 8, -4, 3.5]),
+    );
+    expect(vec4.subtract(a, a).value).toEqual(vec4.getZero().value);
+  });
+
+  it("scales a vector", () => {
+    const result = vec4.scale(vec4.init([1, -2, 3, -4]), -0.5);
+    expect(result.value).toEqual(new Float32Array([-0.5, 1, -1.5, 2]));
+  });
+
+  it("calculates the dot product", () => {
+    const a = vec4.init([1, 2, 3, 4]);
+    expect(vec4.dot(a, a)).toBe(30);
+    expect(vec4.dot(a, vec4.init([4, -3, 2, -1]))).toBe(0);
+  });
+
+  it("calculates the length", () => {
+    expect(vec4.length(vec4.init([1, 1, 1, 1]))).toBe(2);
+  });
+
+  it("normalizes a vector", () => {
+    const result = vec4.normalize(vec4.init([2, 0, -4, 4]));
+    expect(result.value).toBeCloseMatrix(
+      [1 / 3, 0, -2 / 3, 2 / 3],
+      EPSILON_F32,
+    );
+    expect(vec4.length(result)).toBeCloseTo(1, 6);
+  });
+
+  it("returns NaN components when normalizing a zero vector", () => {
+    const result = vec4.normalize(vec4.getZero());
+    expect(Array.from(result.value).every(Number.isNaN)).toBe(true);
+  });
+
+  it("does not modify the arguments", () => {
+    const a = vec4.init([1, 2, 3, 4]);
+    const b = vec4.init([4, 3, 2, 1]);
+    vec4.add(a, b);
+    vec4.subtract(a, b);
+    vec4.normalize(a);
+    expect(a.value).toEqual(new Float32Array([1, 2, 3, 4]));
+    expect(b.value).toEqual(new Float32Array([4, 3, 2, 1]));
+  });
+
+  it("compares vectors with precision", () => {
+    const a = vec4.init([1, 2, 3, 4]);
+    const b = vec4.init([1, 2, 3, 4.0001]);
+    expect(vec4.equals(a, vec4.getClone(a))).toBe(true);
+    expect(vec4.equals(a, b)).toBe(false);
+    expect(vec4.equals(a, b, 3)).toBe(true);
+    expect(vec4.equals(a, b, 5)).toBe(false);
+  });
+
+  it("returns a deep copy", () => {
+    const a = vec4.init([1, 2, 3, 4]);
+    const b = vec4.getClone(a);
+    b.value[3] = 10;
+    expect(a.value[3]).toBe(4);
+  });
+
+  it("checks whether a value is a Vec4", () => {
+    expect(vec4.isVec4(vec4.init([1, 2, 3, 4]))).toBe(true);
+    expect(vec4.isVec4(vec4.getZero())).toBe(true);
+    expect(vec4.isVec4(vec3.init([1, 2, 3]))).toBe(false);
+    expect(vec4.isVec4({ type: "Vec4", value: new Float32Array(3) })).toBe(
+      false,
+    );
+    expect(vec4.isVec4({ type: "Vec4", value: [1, 2, 3, 4] })).toBe(false);
+    expect(vec4.isVec4(undefined)).toBe(false);
+  });
+
+  it("formats a vector as text", () => {
+    expect(vec4.toString(vec4.init([1, 2, 3, 4]))).toBe(
+      "1.000\t2.000\t3.000\t4.000",
+    );
+  });
+});
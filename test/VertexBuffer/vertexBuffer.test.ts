@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  transformDirections,
+  transformNormals,
+  transformPoints,
+  transformVec4s,
+} from "@/vertexBuffer";
+import * as mat4 from "@/mat4";
+import * as vec3 from "@/vec3";
+import * as vec4 from "@/vec4";
+import { SingularMatrixError, ValidationError } from "@/errors";
+import { EPSILON_F32 } from "../epsilon";
+
+const transform = [
+  mat4.getTranslation(1, 2, 3),
+  mat4.getRotate(0.7, [0, 0.6, 0.8]),
+  mat4.getScale(2, 0.5, 3),
+].reduce(mat4.multiply);
+
+// position (3) + uv (2) がインターリーブされたバッファ
+const interleaved = () =>
+  new Float32Array([1, 2, 3, 0.1, 0.2, -4, 5, -6, 0.3, 0.4, 7, 0, 1, 0.5, 0.6]);
+
+describe("vertexBuffer.transformPoints", () => {
+  it("transforms tightly packed points in place", () => {
+    const buffer = new Float32Array([1, 2, 3, -4, 5, -6]);
+    const result = transformPoints(buffer, transform, buffer);
+    expect(result).toBe(buffer);
+    expect(buffer.slice(0, 3)).toBeCloseMatrix(
+      mat4.transformPoint(transform, vec3.init([1, 2, 3])).value,
+      EPSILON_F32,
+    );
+    expect(buffer.slice(3, 6)).toBeCloseMatrix(
+      mat4.transformPoint(transform, vec3.init([-4, 5, -6])).value,
+      EPSILON_F32,
+    );
+  });
+
+  it("respects stride and keeps other attributes", () => {
+    const buffer = interleaved();
+    const out = new Float32Array(buffer.length);
+    transformPoints(out, transform, buffer, { stride: 5 });
+    expect(buffer).toEqual(interleaved());
+    for (let i = 0; i < 3; i++) {
+      expect(out.slice(i * 5, i * 5 + 3)).toBeCloseMatrix(
+        mat4.transformPoint(
+          transform,
+          vec3.init(buffer.slice(i * 5, i * 5 + 3)),
+        ).value,
+        EPSILON_F32,
+      );
+      expect(out.slice(i * 5 + 3, i * 5 + 5)).toEqual(new Float32Array(2));
+    }
+
+    transformPoints(buffer, transform, buffer, { stride: 5 });
+    expect(buffer.slice(3, 5)).toEqual(new Float32Array([0.1, 0.2]));
+  });
+
+  it("respects offset and count", () => {
+    const buffer = interleaved();
+    const translate = mat4.getTranslation(10, 0, 0);
+    transformPoints(buffer, translate, buffer, {
+      stride: 5,
+      offset: 1,
+      count: 2,
+    });
+    expect(Array.from(buffer.slice(0, 5))).toEqual(
+      Array.from(new Float32Array([1, 12, 3, 0.1, 0.2])),
+    );
+    expect(buffer[6]).toBe(15);
+    expect(buffer[11]).toBe(0);
+  });
+
+  it("applies the perspective divide only when requested", () => {
+    const projection = mat4.getPerspective(Math.PI / 2, 1, 1, 10);
+    const buffer = new Float32Array([1, 1, -2]);
+    const divided = transformPoints(new Float32Array(3), projection, buffer);
+    const raw = transformPoints(new Float32Array(3), projection, buffer, {
+      perspectiveDivide: false,
+    });
+    expect(divided).toBeCloseMatrix([0.5, 0.5, raw[2] / 2], EPSILON_F32);
+    expect(raw.slice(0, 2)).toBeCloseMatrix([1, 1], EPSILON_F32);
+  });
+
+  it("throws an error for an invalid layout", () => {
+    const buffer = new Float32Array(6);
+    expect(() =>
+      transformPoints(buffer, transform, buffer, { stride: 2 }),
+    ).toThrow(ValidationError);
+    expect(() =>
+      transformPoints(buffer, transform, buffer, { offset: -1 }),
+    ).toThrow(ValidationError);
+    expect(() =>
+      transformPoints(buffer, transform, buffer, { count: 3 }),
+    ).toThrow(ValidationError);
+    expect(() =>
+      transformPoints(new Float32Array(3), transform, buffer),
+    ).toThrow(ValidationError);
+  });
+});
+
+describe("vertexBuffer.transformVec4s", () => {
+  it("multiplies each vector by the matrix", () => {
+    const buffer = new Float32Array([1, 2, 3, 1, 4, 5, 6, 0]);
+    const out = transformVec4s(new Float32Array(8), transform, buffer);
+    expect(out.slice(0, 4)).toBeCloseMatrix(
+      mat4.multiplyVec4(transform, vec4.init([1, 2, 3, 1])).value,
+      EPSILON_F32,
+    );
+    expect(out.slice(4, 8)).toBeCloseMatrix(
+      mat4.multiplyVec4(transform, vec4.init([4, 5, 6, 0])).value,
+      EPSILON_F32,
+    );
+  });
+});
+
+describe("vertexBuffer.transformDirections", () => {
+  it("ignores translation", () => {
+    const buffer = new Float32Array([1, 2, 3]);
+    transformDirections(buffer, transform, buffer);
+    expect(buffer).toBeCloseMatrix(
+      mat4.transformDirection(transform, vec3.init([1, 2, 3])).value,
+      EPSILON_F32,
+    );
+  });
+});
+
+describe("vertexBuffer.transformNormals", () => {
+  it("keeps normals perpendicular under non-uniform scale", () => {
+    const scale = mat4.getScale(1, 2, 1);
+    // 面 x + y = 0 の法線と接ベクトル
+    const normal = transformNormals(
+      new Float32Array(3),
+      scale,
+      new Float32Array([1, 1, 0]),
+    );
+    const tangent = transformDirections(
+      new Float32Array(3),
+      scale,
+      new Float32Array([1, -1, 0]),
+    );
+    expect(vec3.dot(vec3.init(normal), vec3.init(tangent))).toBeCloseTo(0, 6);
+    expect(vec3.length(vec3.init(normal))).toBeCloseTo(1, 6);
+  });
+
+  it("skips normalization when disabled", () => {
+    const buffer = new Float32Array([0, 0, 1, 0, 0, 0]);
+    transformNormals(buffer, mat4.getScale(1, 1, 0.5), buffer, {
+      normalize: false,
+    });
+    expect(buffer).toBeCloseMatrix([0, 0, 2, 0, 0, 0], EPSILON_F32);
+  });
+
+  it("leaves zero-length normals as zero", () => {
+    const buffer = new Float32Array([0, 0, 0]);
+    transformNormals(buffer, transform, buffer);
+    expect(buffer).toEqual(new Float32Array(3));
+  });
+
+  it("throws an error for a singular matrix", () => {
+    const buffer = new Float32Array([0, 0, 1]);
+    expect(() =>
+      transformNormals(buffer, mat4.getScale(1, 0, 1), buffer),
+    ).toThrow(SingularMatrixError);
+  });
+});
@@ -2,7 +2,14 @@
 /// <reference types="../../types/vitest.d.ts" />
 
 import { describe, expect, it } from "vitest";
-import { fromRowMajor, getIdentity, inverse, multiply } from "@/f32Mat";
+import {
+  fromRowMajor,
+  getIdentity,
+  inverse,
+  lu,
+  luInverse,
+  multiply,
+} from "@/f32Mat";
 import { EPSILON_F32 as EPSILON, EPSILON_F32_ANY } from "../epsilon";
 
 describe("Matrix.inverse", () => {
@@ -210,4 +217,17 @@ describe("Matrix.inverse", () => {
 
     expect(() => inverse(singularMatrix)).toThrow(`Matrix is singular`);
   });
+
+  it("inverts a matrix with small entries like luInverse", () => {
+    const matrix = fromRowMajor([
+      [2e-7, 1e-7],
+      [1e-7, 3e-7],
+    ]);
+    const result = inverse(matrix);
+    expect(result.value).toEqual(luInverse(lu(matrix)).value);
+    expect(multiply(matrix, result).value).toBeCloseMatrix(
+      getIdentity(2).value,
+      EPSILON,
+    );
+  });
 });
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  determinant,
+  fromRowMajor,
+  getIdentity,
+  init,
+  inverse,
+  lu,
+  luDeterminant,
+  luInverse,
+  luLogDeterminant,
+  luSolve,
+  multiply,
+  toRowMajor2dArray,
+} from "@/f32Mat";
+import {
+  DimensionMismatchError,
+  SingularMatrixError,
+  ValidationError,
+} from "@/errors";
+import { EPSILON_F32 } from "../epsilon";
+
+const matrix = fromRowMajor([
+  [2, 1, 1],
+  [4, -6, 0],
+  [-2, 7, 2],
+]);
+
+describe("Matrix.lu", () => {
+  it("satisfies P * A = L * U", () => {
+    const { lower, upper, permutation } = lu(matrix);
+    const rows = toRowMajor2dArray(matrix);
+    const permuted = fromRowMajor(permutation.map(i => rows[i]));
+    expect(multiply(lower, upper).value).toBeCloseMatrix(
+      permuted.value,
+      EPSILON_F32,
+    );
+  });
+
+  it("returns triangular factors", () => {
+    const { lower, upper } = lu(matrix);
+    const l = toRowMajor2dArray(lower);
+    const u = toRowMajor2dArray(upper);
+    for (let row = 0; row < 3; row++) {
+      expect(l[row][row]).toBe(1);
+      for (let col = row + 1; col < 3; col++) {
+        expect(l[row][col]).toBe(0);
+        expect(u[col][row]).toBe(0);
+      }
+    }
+  });
+
+  it("selects the largest pivot", () => {
+    const { permutation, sign } = lu(matrix);
+    expect(permutation[0]).toBe(1);
+    expect(Math.abs(sign)).toBe(1);
+  });
+
+  it("factorizes a singular matrix", () => {
+    const singular = fromRowMajor([
+      [1, 2],
+      [2, 4],
+    ]);
+    const decomposition = lu(singular);
+    expect(luDeterminant(decomposition)).toBeCloseTo(0, 10);
+    expect(luLogDeterminant(decomposition)).toEqual({
+      sign: 0,
+      logAbs: -Infinity,
+    });
+    expect(() => luInverse(decomposition)).toThrow(SingularMatrixError);
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    expect(() => lu(fromRowMajor([[1, 2]]))).toThrow(ValidationError);
+  });
+});
+
+describe("Matrix.luDeterminant", () => {
+  it("matches determinant", () => {
+    expect(luDeterminant(lu(matrix))).toBeCloseTo(determinant(matrix), 4);
+    expect(luDeterminant(lu(matrix))).toBeCloseTo(-16, 4);
+  });
+
+  it("returns the log of a determinant that would overflow", () => {
+    const size = 200;
+    const large = init(
+      getIdentity(size).value.map(v => v * 100),
+      size,
+      size,
+    );
+    const decomposition = lu(large);
+    expect(luDeterminant(decomposition)).toBe(Infinity);
+    const { sign, logAbs } = luLogDeterminant(decomposition);
+    expect(sign).toBe(1);
+    expect(logAbs).toBeCloseTo(size * Math.log(100), 3);
+  });
+
+  it("returns a negative sign", () => {
+    const { sign, logAbs } = luLogDeterminant(lu(matrix));
+    expect(sign).toBe(-1);
+    expect(logAbs).toBeCloseTo(Math.log(16), 5);
+  });
+});
+
+describe("Matrix.luSolve", () => {
+  it("solves for several right-hand sides", () => {
+    const decomposition = lu(matrix);
+    const b = fromRowMajor([
+      [5, 1],
+      [-2, 0],
+      [9, 3],
+    ]);
+    const x = luSolve(decomposition, b);
+    expect(multiply(matrix, x).value).toBeCloseMatrix(b.value, EPSILON_F32);
+    expect(x.value.slice(0, 3)).toBeCloseMatrix([1, 1, 2], EPSILON_F32);
+  });
+
+  it("throws an error for a mismatched right-hand side", () => {
+    expect(() => luSolve(lu(matrix), fromRowMajor([[1], [2]]))).toThrow(
+      DimensionMismatchError,
+    );
+  });
+});
+
+describe("Matrix.luInverse", () => {
+  it("matches inverse", () => {
+    expect(luInverse(lu(matrix)).value).toBeCloseMatrix(
+      inverse(matrix).value,
+      EPSILON_F32,
+    );
+  });
+
+  it("inverts random matrices", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: -10, max: 10 }), {
+          minLength: 16,
+          maxLength: 16,
+        }),
+        values => {
+          const a = init(values, 4, 4);
+          const decomposition = lu(a);
+          // 整数行列なので、正則であれば行列式の絶対値は1以上
+          fc.pre(Math.abs(luDeterminant(decomposition)) > 0.5);
+          expect(multiply(a, luInverse(decomposition)).value).toBeCloseMatrix(
+            getIdentity(4).value,
+            1e-3,
+          );
+        },
+      ),
+    );
+  });
+});
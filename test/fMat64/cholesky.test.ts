@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  cholesky,
+  choleskySolve,
+  fromRowMajor,
+  getIdentity,
+  init,
+  multiply,
+  solve,
+  solveSpd,
+  toRowMajor2dArray,
+  transpose,
+} from "@/f64Mat";
+import {
+  DimensionMismatchError,
+  NotPositiveDefiniteError,
+  ValidationError,
+} from "@/errors";
+import { EPSILON_F64 } from "../epsilon";
+
+const spd = fromRowMajor([
+  [4, 12, -16],
+  [12, 37, -43],
+  [-16, -43, 98],
+]);
+
+describe("Matrix.cholesky", () => {
+  it("returns the lower-triangular factor", () => {
+    const lower = cholesky(spd);
+    expect(toRowMajor2dArray(lower)).toEqual([
+      [2, 0, 0],
+      [6, 1, 0],
+      [-8, 5, 3],
+    ]);
+    expect(multiply(lower, transpose(lower)).value).toBeCloseMatrix(
+      spd.value,
+      EPSILON_F64,
+    );
+  });
+
+  it("factorizes random A^T A + I", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 6 }),
+        fc.array(fc.double({ min: -10, max: 10, noNaN: true }), {
+          minLength: 36,
+          maxLength: 36,
+        }),
+        (size, values) => {
+          const a = init(values.slice(0, size * size), size, size);
+          const matrix = init(
+            multiply(transpose(a), a).value.map(
+              (v, i) => v + (i % (size + 1) === 0 ? 1 : 0),
+            ),
+            size,
+            size,
+          );
+          const lower = cholesky(matrix);
+          expect(multiply(lower, transpose(lower)).value).toBeCloseMatrix(
+            matrix.value,
+            1e-10,
+          );
+        },
+      ),
+    );
+  });
+
+  it("throws an error for a matrix that is not positive definite", () => {
+    const indefinite = fromRowMajor([
+      [1, 2],
+      [2, 1],
+    ]);
+    expect(() => cholesky(indefinite)).toThrow(NotPositiveDefiniteError);
+    expect(() => cholesky(init([0, 0, 0, 0], 2, 2))).toThrow(
+      NotPositiveDefiniteError,
+    );
+    expect(() => cholesky(init([NaN], 1, 1))).toThrow(NotPositiveDefiniteError);
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    expect(() => cholesky(fromRowMajor([[1, 2]]))).toThrow(ValidationError);
+  });
+});
+
+describe("Matrix.solveSpd", () => {
+  it("agrees with solve", () => {
+    const b = fromRowMajor([
+      [1, 0],
+      [2, 1],
+      [3, 0],
+    ]);
+    expect(solveSpd(spd, b).value).toBeCloseMatrix(solve(spd, b).value, 1e-10);
+    expect(multiply(spd, solveSpd(spd, b)).value).toBeCloseMatrix(
+      b.value,
+      1e-10,
+    );
+  });
+
+  it("reuses a factorization", () => {
+    const lower = cholesky(spd);
+    expect(
+      multiply(spd, choleskySolve(lower, getIdentity(3))).value,
+    ).toBeCloseMatrix(getIdentity(3).value, 1e-10);
+  });
+
+  it("throws an error for mismatched shapes", () => {
+    expect(() => solveSpd(spd, fromRowMajor([[1], [2]]))).toThrow(
+      DimensionMismatchError,
+    );
+    expect(() => choleskySolve(cholesky(spd), fromRowMajor([[1]]))).toThrow(
+      DimensionMismatchError,
+    );
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { determinant, fromRowMajor, getIdentity } from "@/f64Mat";
+import {
+  determinant,
+  fromRowMajor,
+  getIdentity,
+  lu,
+  luDeterminant,
+} from "@/f64Mat";
 
 describe("determinant", () => {
   it("should return 1 for an identity matrix", () => {
@@ -66,4 +72,14 @@ describe("determinant", () => {
     ]);
     expect(determinant(matrix)).toBeCloseTo(-5.194, 5);
   });
+
+  it("should match luDeterminant for an ill-conditioned matrix", () => {
+    const hilbert = fromRowMajor(
+      Array.from({ length: 6 }, (_, i) =>
+        Array.from({ length: 6 }, (_, j) => 1 / (i + j + 1)),
+      ),
+    );
+    expect(determinant(hilbert)).toBe(luDeterminant(lu(hilbert)));
+    expect(determinant(hilbert) / 5.367299887358688e-18).toBeCloseTo(1, 6);
+  });
 });
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  eig,
+  eigSymmetric,
+  F64Mat,
+  fromRowMajor,
+  init,
+  multiply,
+  powerIteration,
+} from "@/f64Mat";
+import {
+  ConvergenceError,
+  DimensionMismatchError,
+  ValidationError,
+} from "@/errors";
+
+/**
+ * 全ての固有対について `A * v = λ * v` を複素数で確かめる
+ */
+const expectEigenpairs = (matrix: F64Mat<number, number>, epsilon: number) => {
+  const size = matrix.rowCount;
+  const { real, imag, vectorsReal, vectorsImag } = eig(matrix, {
+    vectors: true,
+  });
+  const av = multiply(matrix, vectorsReal!).value;
+  const aw = multiply(matrix, vectorsImag!).value;
+  const v = vectorsReal!.value;
+  const w = vectorsImag!.value;
+  const scale = Math.max(1, ...matrix.value.map(Math.abs));
+  for (let col = 0; col < size; col++) {
+    for (let row = 0; row < size; row++) {
+      const i = col * size + row;
+      // A * (v + w * i) = (re + im * i) * (v + w * i)
+      expect(
+        Math.abs(av[i] - (real[col] * v[i] - imag[col] * w[i])),
+      ).toBeLessThan(epsilon * scale);
+      expect(
+        Math.abs(aw[i] - (imag[col] * v[i] + real[col] * w[i])),
+      ).toBeLessThan(epsilon * scale);
+    }
+  }
+};
+
+describe("Matrix.eig", () => {
+  it("finds complex eigenvalues of a rotation", () => {
+    const { real, imag } = eig(
+      fromRowMajor([
+        [0, -1],
+        [1, 0],
+      ]),
+    );
+    expect(real[0]).toBeCloseTo(0, 14);
+    expect(real[1]).toBeCloseTo(0, 14);
+    expect(imag[0]).toBeCloseTo(1, 14);
+    expect(imag[1]).toBeCloseTo(-1, 14);
+  });
+
+  it("finds real eigenvalues of a non-symmetric matrix", () => {
+    const { real, imag } = eig(
+      fromRowMajor([
+        [2, 0, 0],
+        [1, 3, 0],
+        [4, 5, 1],
+      ]),
+    );
+    expect(real).toEqual([3, 2, 1].map(n => expect.closeTo(n, 12)));
+    expect(imag).toEqual([0, 0, 0]);
+  });
+
+  it("returns eigenvectors in complex form", () => {
+    expectEigenpairs(
+      fromRowMajor([
+        [1, 2, 0, -1],
+        [-3, 1, 4, 0],
+        [0, -2, 2, 1],
+        [1, 0, -1, 3],
+      ]),
+      1e-12,
+    );
+  });
+
+  it("returns unit eigenvectors", () => {
+    const { vectorsReal, vectorsImag } = eig(
+      fromRowMajor([
+        [0, -2, 1],
+        [1, 0, 0],
+        [0, 1, 0],
+      ]),
+      { vectors: true },
+    );
+    for (let col = 0; col < 3; col++) {
+      let sum = 0;
+      for (let row = 0; row < 3; row++) {
+        sum += vectorsReal!.value[col * 3 + row] ** 2;
+        sum += vectorsImag!.value[col * 3 + row] ** 2;
+      }
+      expect(sum).toBeCloseTo(1, 14);
+    }
+  });
+
+  it("omits eigenvectors by default", () => {
+    const result = eig(fromRowMajor([[2]]));
+    expect(result.real).toEqual([2]);
+    expect(result.vectorsReal).toBeUndefined();
+    expect(result.vectorsImag).toBeUndefined();
+  });
+
+  it("agrees with eigSymmetric for symmetric matrices", () => {
+    const matrix = fromRowMajor([
+      [4, 1, -2, 2],
+      [1, 2, 0, 1],
+      [-2, 0, 3, -2],
+      [2, 1, -2, -1],
+    ]);
+    const { real, imag } = eig(matrix);
+    expect(real).toEqual(
+      eigSymmetric(matrix).values.map(n => expect.closeTo(n, 12)),
+    );
+    expect(imag).toEqual([0, 0, 0, 0]);
+  });
+
+  it("decomposes random matrices", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 6 }),
+        fc.array(fc.integer({ min: -10, max: 10 }), {
+          minLength: 36,
+          maxLength: 36,
+        }),
+        (size, values) => {
+          const matrix = init(values.slice(0, size * size), size, size);
+          const { real, imag } = eig(matrix);
+          // 固有値の和はトレースに等しく、虚部は共役の組で打ち消し合う
+          let trace = 0;
+          for (let i = 0; i < size; i++) {
+            trace += matrix.value[i * size + i];
+          }
+          expect(real.reduce((a, b) => a + b)).toBeCloseTo(trace, 8);
+          expect(imag.reduce((a, b) => a + b)).toBeCloseTo(0, 8);
+        },
+      ),
+    );
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    expect(() => eig(fromRowMajor([[1, 2]]))).toThrow(ValidationError);
+  });
+});
+
+describe("Matrix.powerIteration", () => {
+  it("finds the dominant eigenpair", () => {
+    const { value, vector } = powerIteration(
+      fromRowMajor([
+        [2, 1],
+        [1, 2],
+      ]),
+    );
+    expect(value).toBeCloseTo(3, 10);
+    expect(Math.abs(vector.value[0])).toBeCloseTo(Math.SQRT1_2, 8);
+    expect(Math.abs(vector.value[1])).toBeCloseTo(Math.SQRT1_2, 8);
+  });
+
+  it("finds a negative dominant eigenvalue", () => {
+    const { value } = powerIteration(
+      fromRowMajor([
+        [-5, 1],
+        [0, 2],
+      ]),
+    );
+    expect(value).toBeCloseTo(-5, 8);
+  });
+
+  it("uses the initial vector", () => {
+    const { value } = powerIteration(
+      fromRowMajor([
+        [3, 0],
+        [0, 1],
+      ]),
+      { initialVector: [0, 1] },
+    );
+    // 初期ベクトルが固有ベクトルであれば、そのまま収束する
+    expect(value).toBeCloseTo(1, 14);
+  });
+
+  it("respects the iteration limit", () => {
+    // 絶対値が等しい固有値が2つあると収束しない
+    expect(() =>
+      powerIteration(
+        fromRowMajor([
+          [1, 0],
+          [0, -1],
+        ]),
+        { maxIterations: 50 },
+      ),
+    ).toThrow(ConvergenceError);
+  });
+
+  it("validates the initial vector", () => {
+    const matrix = fromRowMajor([
+      [2, 1],
+      [1, 2],
+    ]);
+    expect(() => powerIteration(matrix, { initialVector: [1, 0, 0] })).toThrow(
+      DimensionMismatchError,
+    );
+    expect(() => powerIteration(matrix, { initialVector: [0, 0] })).toThrow(
+      ValidationError,
+    );
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    expect(() => powerIteration(fromRowMajor([[1, 2]]))).toThrow(
+      ValidationError,
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  eigSymmetric,
+  fromRowMajor,
+  getIdentity,
+  init,
+  multiply,
+  transpose,
+} from "@/f64Mat";
+import { ConvergenceError, ValidationError } from "@/errors";
+import { EPSILON_F64 } from "../epsilon";
+
+const symmetric = fromRowMajor([
+  [4, 1, -2, 2],
+  [1, 2, 0, 1],
+  [-2, 0, 3, -2],
+  [2, 1, -2, -1],
+]);
+
+const diagonalMatrix = (values: number[]) => {
+  const size = values.length;
+  const value = new Float64Array(size * size);
+  values.forEach((v, i) => {
+    value[i * size + i] = v;
+  });
+  return init(value, size, size);
+};
+
+describe("Matrix.eigSymmetric", () => {
+  it("satisfies A = V * D * V^T", () => {
+    const { values, vectors } = eigSymmetric(symmetric);
+    expect(
+      multiply(multiply(vectors, diagonalMatrix(values)), transpose(vectors))
+        .value,
+    ).toBeCloseMatrix(symmetric.value, 1e-12);
+    expect(multiply(transpose(vectors), vectors).value).toBeCloseMatrix(
+      getIdentity(4).value,
+      EPSILON_F64,
+    );
+  });
+
+  it("sorts eigenvalues in descending order", () => {
+    const { values } = eigSymmetric(symmetric);
+    expect(values).toEqual([...values].sort((a, b) => b - a));
+    // 固有値の和はトレースに等しい
+    expect(values.reduce((a, b) => a + b)).toBeCloseTo(8, 12);
+  });
+
+  it("finds known eigenvalues", () => {
+    const { values } = eigSymmetric(
+      fromRowMajor([
+        [2, 1],
+        [1, 2],
+      ]),
+    );
+    expect(values[0]).toBeCloseTo(3, 14);
+    expect(values[1]).toBeCloseTo(1, 14);
+  });
+
+  it("reads only the lower triangle", () => {
+    const lowerOnly = fromRowMajor([
+      [2, 100],
+      [1, 2],
+    ]);
+    const { values } = eigSymmetric(lowerOnly);
+    expect(values[0]).toBeCloseTo(3, 14);
+    expect(values[1]).toBeCloseTo(1, 14);
+  });
+
+  it("decomposes random symmetric matrices", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 6 }),
+        fc.array(fc.double({ min: -100, max: 100, noNaN: true }), {
+          minLength: 36,
+          maxLength: 36,
+        }),
+        (size, values) => {
+          const a = init(values.slice(0, size * size), size, size);
+          const matrix = init(
+            a.value.map(
+              (v, i) => v + a.value[(i % size) * size + ((i / size) | 0)],
+            ),
+            size,
+            size,
+          );
+          const result = eigSymmetric(matrix);
+          expect(
+            multiply(
+              multiply(result.vectors, diagonalMatrix(result.values)),
+              transpose(result.vectors),
+            ).value,
+          ).toBeCloseMatrix(matrix.value, 1e-10);
+        },
+      ),
+    );
+  });
+
+  it("respects the iteration limit", () => {
+    expect(() => eigSymmetric(symmetric, { maxIterations: 1 })).toThrow(
+      ConvergenceError,
+    );
+    expect(() =>
+      eigSymmetric(symmetric, { tolerance: 1e-2, maxIterations: 2 }),
+    ).not.toThrow();
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    expect(() => eigSymmetric(fromRowMajor([[1, 2]]))).toThrow(ValidationError);
+  });
+});
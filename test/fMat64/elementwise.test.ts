@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  divideElementwise,
+  fromRowMajor,
+  getIdentity,
+  hadamard,
+  kronecker,
+  multiply,
+  negate,
+  toRowMajor2dArray,
+  trace,
+} from "@/f64Mat";
+import { ValidationError } from "@/errors";
+
+const a = fromRowMajor([
+  [1, -2, 3],
+  [4, 5, -6],
+]);
+const b = fromRowMajor([
+  [2, 4, -1],
+  [0.5, -5, 2],
+]);
+
+describe("Matrix.negate", () => {
+  it("flips the sign of every value", () => {
+    expect(toRowMajor2dArray(negate(a))).toEqual([
+      [-1, 2, -3],
+      [-4, -5, 6],
+    ]);
+    expect(a.value[0]).toBe(1);
+  });
+});
+
+describe("Matrix.hadamard", () => {
+  it("multiplies values element-wise", () => {
+    expect(toRowMajor2dArray(hadamard(a, b))).toEqual([
+      [2, -8, -3],
+      [2, -25, -12],
+    ]);
+  });
+
+  it("throws an error for mismatched sizes", () => {
+    expect(() => hadamard(a, getIdentity(2))).toThrow(ValidationError);
+  });
+});
+
+describe("Matrix.divideElementwise", () => {
+  it("divides values element-wise", () => {
+    expect(toRowMajor2dArray(divideElementwise(a, b))).toEqual([
+      [0.5, -0.5, -3],
+      [8, -1, -3],
+    ]);
+  });
+
+  it("follows IEEE 754 for division by zero", () => {
+    const result = divideElementwise(
+      fromRowMajor([[1, -1, 0]]),
+      fromRowMajor([[0, 0, 0]]),
+    );
+    expect(Array.from(result.value)).toEqual([Infinity, -Infinity, NaN]);
+  });
+
+  it("throws an error for mismatched sizes", () => {
+    expect(() => divideElementwise(a, getIdentity(2))).toThrow(ValidationError);
+  });
+});
+
+describe("Matrix.kronecker", () => {
+  it("replaces each value with a scaled block", () => {
+    const result = kronecker(
+      fromRowMajor([
+        [1, 2],
+        [3, 4],
+      ]),
+      fromRowMajor([[0, 5, 1]]),
+    );
+    expect(result.rowCount).toBe(2);
+    expect(result.colCount).toBe(6);
+    expect(toRowMajor2dArray(result)).toEqual([
+      [0, 5, 1, 0, 10, 2],
+      [0, 15, 3, 0, 20, 4],
+    ]);
+  });
+
+  it("satisfies the mixed-product property", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: -9, max: 9 }), {
+          minLength: 16,
+          maxLength: 16,
+        }),
+        values => {
+          const [p, q, r, s] = [0, 4, 8, 12].map(i =>
+            fromRowMajor([values.slice(i, i + 2), values.slice(i + 2, i + 4)]),
+          );
+          // (P ⊗ Q)(R ⊗ S) = (PR) ⊗ (QS)
+          expect(
+            multiply(kronecker(p, q), kronecker(r, s)).value,
+          ).toBeCloseMatrix(
+            kronecker(multiply(p, r), multiply(q, s)).value,
+            1e-9,
+          );
+        },
+      ),
+    );
+  });
+});
+
+describe("Matrix.trace", () => {
+  it("sums the diagonal", () => {
+    expect(
+      trace(
+        fromRowMajor([
+          [1, 2, 3],
+          [4, 5, 6],
+          [7, 8, 9],
+        ]),
+      ),
+    ).toBe(15);
+    expect(trace(getIdentity(4))).toBe(4);
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    expect(() => trace(a)).toThrow(ValidationError);
+  });
+});
@@ -2,7 +2,14 @@
 /// <reference types="../../types/vitest.d.ts" />
 
 import { describe, expect, it } from "vitest";
-import { fromRowMajor, getIdentity, inverse, multiply } from "@/f64Mat";
+import {
+  fromRowMajor,
+  getIdentity,
+  inverse,
+  lu,
+  luInverse,
+  multiply,
+} from "@/f64Mat";
 
 describe("Matrix.inverse", () => {
   it("calculates the inverse of a 2x2 matrix", () => {
@@ -209,4 +216,18 @@ describe("Matrix.inverse", () => {
 
     expect(() => inverse(singularMatrix)).toThrow(`Matrix is singular`);
   });
+
+  it("inverts an ill-conditioned matrix like luInverse", () => {
+    const hilbert = fromRowMajor(
+      Array.from({ length: 6 }, (_, i) =>
+        Array.from({ length: 6 }, (_, j) => 1 / (i + j + 1)),
+      ),
+    );
+    const result = inverse(hilbert);
+    expect(result.value).toEqual(luInverse(lu(hilbert)).value);
+    expect(multiply(hilbert, result).value).toBeCloseMatrix(
+      getIdentity(6).value,
+      1e-8,
+    );
+  });
 });
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  fromRowMajor,
+  getIdentity,
+  init,
+  inverse,
+  leastSquares,
+  multiply,
+  pseudoInverse,
+} from "@/f64Mat";
+import { DimensionMismatchError } from "@/errors";
+
+describe("Matrix.pseudoInverse", () => {
+  it("matches the inverse of a non-singular matrix", () => {
+    const matrix = fromRowMajor([
+      [4, 7, 2],
+      [3, 6, 1],
+      [2, 5, 3],
+    ]);
+    expect(pseudoInverse(matrix).value).toBeCloseMatrix(
+      inverse(matrix).value,
+      1e-12,
+    );
+  });
+
+  it("returns a transposed size for rectangular matrices", () => {
+    const tall = fromRowMajor([
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ]);
+    const pinv = pseudoInverse(tall);
+    expect(pinv.rowCount).toBe(2);
+    expect(pinv.colCount).toBe(3);
+    // 列フルランクであれば左逆行列になる
+    expect(multiply(pinv, tall).value).toBeCloseMatrix(
+      getIdentity(2).value,
+      1e-12,
+    );
+  });
+
+  it("handles rank-deficient matrices", () => {
+    const matrix = fromRowMajor([
+      [1, 2],
+      [2, 4],
+    ]);
+    // 外積 a * a^T / |a|^4 の形になる
+    expect(pseudoInverse(matrix).value).toBeCloseMatrix(
+      [1 / 25, 2 / 25, 2 / 25, 4 / 25],
+      1e-14,
+    );
+  });
+
+  it("returns a zero matrix for a zero matrix", () => {
+    expect(
+      Array.from(pseudoInverse(init([0, 0, 0, 0, 0, 0], 2, 3)).value),
+    ).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it("satisfies the Moore-Penrose conditions", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 1, max: 5 }),
+        fc.array(fc.integer({ min: -5, max: 5 }), {
+          minLength: 25,
+          maxLength: 25,
+        }),
+        (rows, cols, values) => {
+          const a = init(values.slice(0, rows * cols), rows, cols);
+          const pinv = pseudoInverse(a);
+          // A * A^+ * A = A, A^+ * A * A^+ = A^+
+          expect(multiply(multiply(a, pinv), a).value).toBeCloseMatrix(
+            a.value,
+            1e-10,
+          );
+          expect(multiply(multiply(pinv, a), pinv).value).toBeCloseMatrix(
+            pinv.value,
+            1e-10,
+          );
+        },
+      ),
+    );
+  });
+});
+
+describe("Matrix.leastSquares", () => {
+  it("fits a line to noisy points", () => {
+    // y = 2x + 1 に ±0.1 のノイズを加えた点
+    const xs = [0, 1, 2, 3];
+    const ys = [1.1, 2.9, 5.1, 6.9];
+    const a = fromRowMajor(xs.map(x => [x, 1]));
+    const b = fromRowMajor(ys.map(y => [y]));
+    const { solution, residualNorm, rank } = leastSquares(a, b);
+    expect(solution.value[0]).toBeCloseTo(1.96, 12);
+    expect(solution.value[1]).toBeCloseTo(1.06, 12);
+    expect(residualNorm).toBeCloseTo(Math.sqrt(0.032), 12);
+    expect(rank).toBe(2);
+  });
+
+  it("solves consistent systems exactly", () => {
+    const a = fromRowMajor([
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ]);
+    const b = fromRowMajor([
+      [1, -2],
+      [2, 0],
+      [3, -2],
+    ]);
+    const { solution, residualNorm } = leastSquares(a, b);
+    expect(solution.value).toBeCloseMatrix([1, 2, -2, 0], 1e-12);
+    expect(residualNorm).toBeLessThan(1e-12);
+  });
+
+  it("returns the minimum-norm solution for rank-deficient systems", () => {
+    const a = fromRowMajor([
+      [1, 1],
+      [1, 1],
+    ]);
+    const b = fromRowMajor([[2], [2]]);
+    const { solution, rank } = leastSquares(a, b);
+    expect(solution.value).toBeCloseMatrix([1, 1], 1e-12);
+    expect(rank).toBe(1);
+  });
+
+  it("treats small singular values as zero with a tolerance", () => {
+    const a = fromRowMajor([
+      [1, 0],
+      [0, 1e-8],
+    ]);
+    const b = fromRowMajor([[1], [1]]);
+    expect(leastSquares(a, b).rank).toBe(2);
+    const { solution, rank } = leastSquares(a, b, 1e-6);
+    expect(rank).toBe(1);
+    expect(solution.value).toBeCloseMatrix([1, 0], 1e-12);
+  });
+
+  it("handles very large and very small entries", () => {
+    // y = 2x + 1 に、列と直交するノイズ (残差のノルムは 1) を加える
+    const x = [0, 1, 2, 3];
+    const noise = [0.5, -0.5, -0.5, 0.5];
+    [1e200, 1e-200].forEach(scale => {
+      const a = init(
+        [...x, 1, 1, 1, 1].map(v => v * scale),
+        4,
+        2,
+      );
+      const b = init(
+        x.map((v, i) => (2 * v + 1 + noise[i]) * scale),
+        4,
+        1,
+      );
+      const { solution, residualNorm, rank } = leastSquares(a, b);
+      expect(solution.value).toBeCloseMatrix([2, 1], 1e-12);
+      expect(residualNorm / scale).toBeCloseTo(1, 12);
+      expect(rank).toBe(2);
+    });
+  });
+
+  it("throws an error for mismatched rows", () => {
+    expect(() =>
+      leastSquares(fromRowMajor([[1], [2]]), fromRowMajor([[1]])),
+    ).toThrow(DimensionMismatchError);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  conditionNumber,
+  estimateConditionNumber,
+  fromRowMajor,
+  getIdentity,
+  init,
+  inverse,
+  lu,
+  luInverse,
+  MatrixNorm,
+  norm,
+} from "@/f64Mat";
+import { ValidationError } from "@/errors";
+
+const matrix = fromRowMajor([
+  [1, -2, 3],
+  [-4, 5, -6],
+]);
+
+describe("Matrix.norm", () => {
+  it("computes the Frobenius norm by default", () => {
+    expect(norm(matrix)).toBeCloseTo(Math.sqrt(91), 14);
+    expect(norm(matrix, "frobenius")).toBeCloseTo(Math.sqrt(91), 14);
+  });
+
+  it("computes the 1-norm as the maximum column sum", () => {
+    expect(norm(matrix, "one")).toBe(9);
+  });
+
+  it("computes the infinity-norm as the maximum row sum", () => {
+    expect(norm(matrix, "infinity")).toBe(15);
+  });
+
+  it("computes the spectral norm as the largest singular value", () => {
+    expect(
+      norm(
+        fromRowMajor([
+          [3, 0],
+          [4, 5],
+        ]),
+        "spectral",
+      ),
+    ).toBeCloseTo(Math.sqrt(45), 12);
+    expect(norm(getIdentity(3), "spectral")).toBeCloseTo(1, 14);
+  });
+
+  it("returns 0 for a zero matrix", () => {
+    const zero = init([0, 0, 0, 0], 2, 2);
+    for (const kind of ["frobenius", "one", "infinity", "spectral"] as const) {
+      expect(norm(zero, kind)).toBe(0);
+    }
+  });
+
+  it("bounds the spectral norm by the other norms", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 1, max: 5 }),
+        fc.array(fc.integer({ min: -100, max: 100 }), {
+          minLength: 25,
+          maxLength: 25,
+        }),
+        (rows, cols, values) => {
+          const a = init(values.slice(0, rows * cols), rows, cols);
+          const spectral = norm(a, "spectral");
+          const bound = 1 + 1e-12;
+          expect(spectral).toBeLessThanOrEqual(norm(a) * bound);
+          expect(spectral).toBeLessThanOrEqual(
+            Math.sqrt(norm(a, "one") * norm(a, "infinity")) * bound,
+          );
+        },
+      ),
+    );
+  });
+
+  it("throws an error for an invalid kind", () => {
+    expect(() => norm(matrix, "max" as MatrixNorm)).toThrow(ValidationError);
+  });
+});
+
+describe("Matrix.conditionNumber", () => {
+  it("returns 1 for orthogonal matrices", () => {
+    const c = Math.cos(0.3);
+    const s = Math.sin(0.3);
+    expect(
+      conditionNumber(
+        fromRowMajor([
+          [c, -s],
+          [s, c],
+        ]),
+      ),
+    ).toBeCloseTo(1, 14);
+  });
+
+  it("returns the ratio of singular values", () => {
+    expect(
+      conditionNumber(
+        fromRowMajor([
+          [100, 0],
+          [0, 0.5],
+        ]),
+      ),
+    ).toBeCloseTo(200, 10);
+  });
+
+  it("returns Infinity for singular matrices", () => {
+    expect(
+      conditionNumber(
+        fromRowMajor([
+          [1, 2],
+          [2, 4],
+        ]),
+      ),
+    ).toBe(Infinity);
+  });
+
+  it("grows with the Hilbert matrix size", () => {
+    const hilbert = (size: number) =>
+      fromRowMajor(
+        Array.from({ length: size }, (_, i) =>
+          Array.from({ length: size }, (_, j) => 1 / (i + j + 1)),
+        ),
+      );
+    expect(conditionNumber(hilbert(4))).toBeCloseTo(15513.7387, 3);
+    expect(conditionNumber(hilbert(8))).toBeGreaterThan(1e10);
+  });
+});
+
+describe("Matrix.estimateConditionNumber", () => {
+  it("matches the exact 1-norm condition number for triangular matrices", () => {
+    const a = fromRowMajor([
+      [1, -1, -1],
+      [0, 1, -1],
+      [0, 0, 1],
+    ]);
+    const exact = norm(a, "one") * norm(inverse(a), "one");
+    expect(estimateConditionNumber(a)).toBeCloseTo(exact, 12);
+  });
+
+  it("matches the exact value when rows need pivoting", () => {
+    // 行の置換を戻し忘れると、勾配が別の列を指して推定値が小さくなる
+    const a = fromRowMajor([
+      [2, 0, -1, -1],
+      [-2, 4, 9, 1],
+      [-1, -6, 7, 3],
+      [8, 2, 7, -1],
+    ]);
+    const exact = norm(a, "one") * norm(inverse(a), "one");
+    expect(estimateConditionNumber(a)).toBeCloseTo(exact, 12);
+  });
+
+  it("stays close to the exact value for ill-conditioned matrices", () => {
+    const hilbert = fromRowMajor(
+      Array.from({ length: 6 }, (_, i) =>
+        Array.from({ length: 6 }, (_, j) => 1 / (i + j + 1)),
+      ),
+    );
+    const exact = norm(hilbert, "one") * norm(luInverse(lu(hilbert)), "one");
+    expect(estimateConditionNumber(hilbert)).toBeGreaterThan(exact / 3);
+  });
+
+  it("never exceeds the exact value", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 6 }),
+        fc.array(fc.integer({ min: -10, max: 10 }), {
+          minLength: 36,
+          maxLength: 36,
+        }),
+        (size, values) => {
+          const a = init(values.slice(0, size * size), size, size);
+          const estimate = estimateConditionNumber(a);
+          fc.pre(Number.isFinite(estimate));
+          const exact = norm(a, "one") * norm(inverse(a), "one");
+          expect(estimate).toBeLessThanOrEqual(exact * (1 + 1e-8));
+        },
+      ),
+    );
+  });
+
+  it("returns Infinity for singular matrices", () => {
+    expect(
+      estimateConditionNumber(
+        fromRowMajor([
+          [1, 2],
+          [2, 4],
+        ]),
+      ),
+    ).toBe(Infinity);
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    expect(() => estimateConditionNumber(matrix)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  fromRowMajor,
+  getIdentity,
+  init,
+  multiply,
+  qr,
+  qrEconomy,
+  qrPivoted,
+  toRowMajor2dArray,
+  transpose,
+} from "@/f64Mat";
+import { EPSILON_F64 } from "../epsilon";
+
+const tall = fromRowMajor([
+  [12, -51, 4],
+  [6, 167, -68],
+  [-4, 24, -41],
+  [1, 2, 3],
+]);
+
+const expectUpperTriangular = (matrix: ReturnType<typeof qr>["r"]) => {
+  toRowMajor2dArray(matrix).forEach((row, i) =>
+    row.slice(0, i).forEach(v => expect(v).toBe(0)),
+  );
+};
+
+describe("Matrix.qr", () => {
+  it("factorizes a square matrix", () => {
+    const matrix = fromRowMajor([
+      [12, -51, 4],
+      [6, 167, -68],
+      [-4, 24, -41],
+    ]);
+    const { q, r } = qr(matrix);
+    expect(multiply(q, r).value).toBeCloseMatrix(matrix.value, 1e-10);
+    expect(multiply(transpose(q), q).value).toBeCloseMatrix(
+      getIdentity(3).value,
+      EPSILON_F64,
+    );
+    expectUpperTriangular(r);
+    expect(Math.abs(r.value[0])).toBeCloseTo(14, 10);
+  });
+
+  it("returns a square Q for a tall matrix", () => {
+    const { q, r } = qr(tall);
+    expect([q.rowCount, q.colCount]).toEqual([4, 4]);
+    expect([r.rowCount, r.colCount]).toEqual([4, 3]);
+    expect(multiply(q, r).value).toBeCloseMatrix(tall.value, 1e-10);
+    expect(multiply(transpose(q), q).value).toBeCloseMatrix(
+      getIdentity(4).value,
+      EPSILON_F64,
+    );
+    expectUpperTriangular(r);
+  });
+
+  it("factorizes a wide matrix", () => {
+    const wide = transpose(tall);
+    const { q, r } = qr(wide);
+    expect([q.rowCount, q.colCount]).toEqual([3, 3]);
+    expect([r.rowCount, r.colCount]).toEqual([3, 4]);
+    expect(multiply(q, r).value).toBeCloseMatrix(wide.value, 1e-10);
+    expectUpperTriangular(r);
+  });
+
+  it("reconstructs random matrices", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.array(fc.double({ min: -100, max: 100, noNaN: true }), {
+          minLength: 36,
+          maxLength: 36,
+        }),
+        (rowCount, colCount, values) => {
+          const matrix = init(
+            values.slice(0, rowCount * colCount),
+            rowCount,
+            colCount,
+          );
+          const { q, r } = qr(matrix);
+          expect(multiply(q, r).value).toBeCloseMatrix(matrix.value, 1e-9);
+          expect(multiply(transpose(q), q).value).toBeCloseMatrix(
+            getIdentity(rowCount).value,
+            1e-12,
+          );
+        },
+      ),
+    );
+  });
+});
+
+describe("Matrix.qrEconomy", () => {
+  it("drops the unused columns of Q", () => {
+    const { q, r } = qrEconomy(tall);
+    expect([q.rowCount, q.colCount]).toEqual([4, 3]);
+    expect([r.rowCount, r.colCount]).toEqual([3, 3]);
+    expect(multiply(q, r).value).toBeCloseMatrix(tall.value, 1e-10);
+    expect(multiply(transpose(q), q).value).toBeCloseMatrix(
+      getIdentity(3).value,
+      EPSILON_F64,
+    );
+    expect(r.value).toBeCloseMatrix(
+      qr(tall).r.value.filter((_, i) => i % 4 !== 3),
+      EPSILON_F64,
+    );
+  });
+
+  it("handles very large and very small entries", () => {
+    [1e200, 1e-200].forEach(scale => {
+      const matrix = init(
+        tall.value.map(v => v * scale),
+        4,
+        3,
+      );
+      const { q, r } = qrEconomy(matrix);
+      expect(multiply(q, r).value.map(v => v / scale)).toBeCloseMatrix(
+        tall.value,
+        1e-10,
+      );
+      expect(multiply(transpose(q), q).value).toBeCloseMatrix(
+        getIdentity(3).value,
+        EPSILON_F64,
+      );
+      expect(Math.abs(r.value[0]) / scale).toBeCloseTo(Math.sqrt(197), 10);
+    });
+  });
+});
+
+describe("Matrix.qrPivoted", () => {
+  it("satisfies A * P = Q * R", () => {
+    const { q, r, permutation, rank } = qrPivoted(tall);
+    const columns = Array.from({ length: 3 }, (_, j) =>
+      Array.from(tall.value.slice(j * 4, j * 4 + 4)),
+    );
+    const permuted = init(
+      permutation.flatMap(j => columns[j]),
+      4,
+      3,
+    );
+    expect(multiply(q, r).value).toBeCloseMatrix(permuted.value, 1e-10);
+    expect(rank).toBe(3);
+  });
+
+  it("sorts the diagonal of R in descending order", () => {
+    const { r } = qrPivoted(tall);
+    const diagonal = [0, 1, 2].map(i => Math.abs(r.value[i * 4 + i]));
+    expect(diagonal).toEqual([...diagonal].sort((a, b) => b - a));
+  });
+
+  it("chooses the same pivots for very large and very small entries", () => {
+    const { permutation } = qrPivoted(tall);
+    [1e200, 1e-200].forEach(scale => {
+      const matrix = init(
+        tall.value.map(v => v * scale),
+        4,
+        3,
+      );
+      expect(qrPivoted(matrix).permutation).toEqual(permutation);
+    });
+  });
+
+  it("detects the rank of a rank-deficient matrix", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3, 4],
+      [2, 4, 6, 8],
+      [1, 0, 1, 0],
+    ]);
+    expect(qrPivoted(matrix).rank).toBe(2);
+    expect(qrPivoted(getIdentity(4)).rank).toBe(4);
+    expect(qrPivoted(init([0, 0, 0, 0], 2, 2)).rank).toBe(0);
+  });
+
+  it("uses the given tolerance", () => {
+    const matrix = fromRowMajor([
+      [1, 0],
+      [0, 1e-8],
+    ]);
+    expect(qrPivoted(matrix).rank).toBe(2);
+    expect(qrPivoted(matrix, 1e-6).rank).toBe(1);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  columnSpace,
+  fromRowMajor,
+  getIdentity,
+  init,
+  isF64Mat,
+  multiply,
+  nullSpace,
+  rank,
+  rref,
+} from "@/f64Mat";
+
+const rankTwo = fromRowMajor([
+  [1, 2, 1, -1],
+  [2, 4, 0, 2],
+  [3, 6, 1, 1],
+]);
+
+describe("Matrix.rref", () => {
+  it("reduces a matrix to reduced row echelon form", () => {
+    expect(rref(rankTwo).value).toBeCloseMatrix(
+      fromRowMajor([
+        [1, 2, 0, 1],
+        [0, 0, 1, -2],
+        [0, 0, 0, 0],
+      ]).value,
+      1e-14,
+    );
+  });
+
+  it("returns the identity for a non-singular matrix", () => {
+    const matrix = fromRowMajor([
+      [0, 2, 1],
+      [1, 1, 0],
+      [3, 0, 1],
+    ]);
+    expect(rref(matrix).value).toBeCloseMatrix(getIdentity(3).value, 1e-14);
+  });
+
+  it("does not modify the input", () => {
+    const copy = Float64Array.from(rankTwo.value);
+    rref(rankTwo);
+    expect(rankTwo.value).toEqual(copy);
+  });
+
+  it("treats values below the tolerance as zero", () => {
+    const matrix = fromRowMajor([
+      [1, 1],
+      [1, 1 + 1e-9],
+    ]);
+    expect(rref(matrix).value).toBeCloseMatrix(getIdentity(2).value, 1e-14);
+    expect(rref(matrix, 1e-6).value).toBeCloseMatrix([1, 0, 1, 0], 1e-14);
+  });
+});
+
+describe("Matrix.rank", () => {
+  it("counts pivots", () => {
+    expect(rank(rankTwo)).toBe(2);
+    expect(rank(getIdentity(4))).toBe(4);
+    expect(rank(init([0, 0, 0, 0], 2, 2))).toBe(0);
+  });
+
+  it("applies the tolerance", () => {
+    const matrix = fromRowMajor([
+      [1, 0],
+      [0, 1e-9],
+    ]);
+    expect(rank(matrix)).toBe(2);
+    expect(rank(matrix, 1e-6)).toBe(1);
+  });
+});
+
+describe("Matrix.nullSpace", () => {
+  it("finds a basis of the null space", () => {
+    const basis = nullSpace(rankTwo);
+    expect(basis?.rowCount).toBe(4);
+    expect(basis?.colCount).toBe(2);
+    expect(basis?.value).toBeCloseMatrix([-2, 1, 0, 0, -1, 0, 2, 1], 1e-14);
+  });
+
+  it("returns null for a matrix with full column rank", () => {
+    expect(
+      nullSpace(
+        fromRowMajor([
+          [1, 0],
+          [0, 1],
+          [1, 1],
+        ]),
+      ),
+    ).toBeNull();
+  });
+
+  it("spans every vector for a zero matrix", () => {
+    const basis = nullSpace(init([0, 0, 0, 0, 0, 0], 2, 3));
+    expect(isF64Mat(basis)).toBe(true);
+    expect(basis?.value).toEqual(getIdentity(3).value);
+  });
+
+  it("satisfies A * N = 0 for random matrices", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 1, max: 5 }),
+        fc.array(fc.integer({ min: -3, max: 3 }), {
+          minLength: 25,
+          maxLength: 25,
+        }),
+        (rows, cols, values) => {
+          const a = init(values.slice(0, rows * cols), rows, cols);
+          const basis = nullSpace(a);
+          // 階数・退化次数の定理
+          expect((basis?.colCount ?? 0) + rank(a)).toBe(cols);
+          if (basis !== null) {
+            expect(isF64Mat(basis)).toBe(true);
+            expect(
+              Array.from(multiply(a, basis).value).every(
+                x => Math.abs(x) < 1e-10,
+              ),
+            ).toBe(true);
+          }
+        },
+      ),
+    );
+  });
+});
+
+describe("Matrix.columnSpace", () => {
+  it("takes pivot columns from the original matrix", () => {
+    const basis = columnSpace(rankTwo);
+    expect(basis?.rowCount).toBe(3);
+    expect(basis?.colCount).toBe(2);
+    expect(Array.from(basis?.value ?? [])).toEqual([1, 2, 3, 1, 0, 1]);
+  });
+
+  it("returns null for a zero matrix", () => {
+    expect(columnSpace(init([0, 0, 0, 0], 2, 2))).toBeNull();
+  });
+});
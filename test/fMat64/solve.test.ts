@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import { fromRowMajor, init, inverse, multiply, solve } from "@/f64Mat";
+import {
+  DimensionMismatchError,
+  SingularMatrixError,
+  ValidationError,
+} from "@/errors";
+import { EPSILON_F64 } from "../epsilon";
+
+describe("Matrix.solve", () => {
+  it("solves a linear system", () => {
+    const a = fromRowMajor([
+      [3, 2, -1],
+      [2, -2, 4],
+      [-1, 0.5, -1],
+    ]);
+    const b = fromRowMajor([[1], [-2], [0]]);
+    const x = solve(a, b);
+    expect(x.rowCount).toBe(3);
+    expect(x.colCount).toBe(1);
+    expect(x.value).toBeCloseMatrix([1, -2, -2], EPSILON_F64);
+  });
+
+  it("solves for multiple right-hand sides", () => {
+    const a = fromRowMajor([
+      [4, 7],
+      [2, 6],
+    ]);
+    const b = fromRowMajor([
+      [1, 0, 3],
+      [0, 1, 5],
+    ]);
+    const x = solve(a, b);
+    expect(x.colCount).toBe(3);
+    expect(multiply(a, x).value).toBeCloseMatrix(b.value, EPSILON_F64);
+    expect(x.value.slice(0, 4)).toBeCloseMatrix(inverse(a).value, EPSILON_F64);
+  });
+
+  it("agrees with the inverse for random systems", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: -10, max: 10 }), {
+          minLength: 9,
+          maxLength: 9,
+        }),
+        fc.array(fc.integer({ min: -10, max: 10 }), {
+          minLength: 3,
+          maxLength: 3,
+        }),
+        (values, rhs) => {
+          const a = init(values, 3, 3);
+          const b = init(rhs, 3, 1);
+          let x;
+          try {
+            x = solve(a, b);
+          } catch (e) {
+            fc.pre(!(e instanceof SingularMatrixError));
+            throw e;
+          }
+          expect(multiply(a, x).value).toBeCloseMatrix(b.value, 1e-9);
+        },
+      ),
+    );
+  });
+
+  it("throws an error for a singular system", () => {
+    const a = fromRowMajor([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+    expect(() => solve(a, fromRowMajor([[1], [2], [3]]))).toThrow(
+      SingularMatrixError,
+    );
+  });
+
+  it("throws an error for mismatched shapes", () => {
+    const a = fromRowMajor([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(() => solve(a, fromRowMajor([[1], [2], [3]]))).toThrow(
+      DimensionMismatchError,
+    );
+    expect(() => solve(fromRowMajor([[1, 2]]), fromRowMajor([[1]]))).toThrow(
+      ValidationError,
+    );
+  });
+});
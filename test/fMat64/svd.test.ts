@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import * as fc from "fast-check";
+import {
+  fromRowMajor,
+  getIdentity,
+  init,
+  multiply,
+  svd,
+  transpose,
+} from "@/f64Mat";
+import { ConvergenceError } from "@/errors";
+import { EPSILON_F64 } from "../epsilon";
+
+const matrix = fromRowMajor([
+  [3, 2, 2],
+  [2, 3, -2],
+]);
+
+const reconstruct = ({ u, sigma, vt }: ReturnType<typeof svd>) =>
+  multiply(multiply(u, sigma), vt);
+
+describe("Matrix.svd", () => {
+  it("finds the singular values in descending order", () => {
+    const { singularValues } = svd(matrix);
+    expect(singularValues).toHaveLength(2);
+    expect(singularValues[0]).toBeCloseTo(5, 12);
+    expect(singularValues[1]).toBeCloseTo(3, 12);
+  });
+
+  it("returns the thin form by default", () => {
+    const result = svd(matrix);
+    const { u, sigma, vt } = result;
+    expect([u.rowCount, u.colCount]).toEqual([2, 2]);
+    expect([sigma.rowCount, sigma.colCount]).toEqual([2, 2]);
+    expect([vt.rowCount, vt.colCount]).toEqual([2, 3]);
+    expect(reconstruct(result).value).toBeCloseMatrix(
+      matrix.value,
+      EPSILON_F64,
+    );
+    expect(multiply(vt, transpose(vt)).value).toBeCloseMatrix(
+      getIdentity(2).value,
+      EPSILON_F64,
+    );
+  });
+
+  it("returns the full form", () => {
+    const result = svd(transpose(matrix), { full: true });
+    const { u, sigma, vt } = result;
+    expect([u.rowCount, u.colCount]).toEqual([3, 3]);
+    expect([sigma.rowCount, sigma.colCount]).toEqual([3, 2]);
+    expect([vt.rowCount, vt.colCount]).toEqual([2, 2]);
+    expect(reconstruct(result).value).toBeCloseMatrix(
+      transpose(matrix).value,
+      EPSILON_F64,
+    );
+    expect(multiply(transpose(u), u).value).toBeCloseMatrix(
+      getIdentity(3).value,
+      EPSILON_F64,
+    );
+  });
+
+  it("handles a rank-deficient matrix", () => {
+    const deficient = fromRowMajor([
+      [1, 2, 3],
+      [2, 4, 6],
+      [1, 1, 1],
+    ]);
+    const result = svd(deficient);
+    expect(result.singularValues[2]).toBeCloseTo(0, 12);
+    expect(reconstruct(result).value).toBeCloseMatrix(
+      deficient.value,
+      EPSILON_F64,
+    );
+    expect(multiply(transpose(result.u), result.u).value).toBeCloseMatrix(
+      getIdentity(3).value,
+      EPSILON_F64,
+    );
+  });
+
+  it("handles a zero matrix", () => {
+    const result = svd(init([0, 0, 0, 0, 0, 0], 3, 2), { full: true });
+    expect(result.singularValues).toEqual([0, 0]);
+    expect(multiply(transpose(result.u), result.u).value).toBeCloseMatrix(
+      getIdentity(3).value,
+      EPSILON_F64,
+    );
+  });
+
+  it("decomposes random matrices", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.array(fc.double({ min: -100, max: 100, noNaN: true }), {
+          minLength: 36,
+          maxLength: 36,
+        }),
+        fc.boolean(),
+        (rowCount, colCount, values, full) => {
+          const a = init(
+            values.slice(0, rowCount * colCount),
+            rowCount,
+            colCount,
+          );
+          const result = svd(a, { full });
+          expect(reconstruct(result).value).toBeCloseMatrix(a.value, 1e-9);
+          expect(multiply(transpose(result.u), result.u).value).toBeCloseMatrix(
+            getIdentity(result.u.colCount).value,
+            1e-12,
+          );
+          expect(
+            multiply(result.vt, transpose(result.vt)).value,
+          ).toBeCloseMatrix(getIdentity(result.vt.rowCount).value, 1e-12);
+          result.singularValues.forEach((value, i) => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            if (i > 0) {
+              expect(value).toBeLessThanOrEqual(result.singularValues[i - 1]);
+            }
+          });
+        },
+      ),
+    );
+  });
+
+  it("handles very large and very small entries", () => {
+    [1e200, 1e-200].forEach(scale => {
+      const scaled = init(
+        matrix.value.map(v => v * scale),
+        2,
+        3,
+      );
+      const result = svd(scaled);
+      expect(result.singularValues.map(v => v / scale)).toBeCloseMatrix(
+        [5, 3],
+        1e-12,
+      );
+      expect(reconstruct(result).value.map(v => v / scale)).toBeCloseMatrix(
+        matrix.value,
+        1e-12,
+      );
+    });
+  });
+
+  it("completes the full form of a tall matrix", () => {
+    const rowCount = 50;
+    const a = init(
+      Array.from({ length: rowCount * 3 }, (_, i) => Math.cos(i)),
+      rowCount,
+      3,
+    );
+    const result = svd(a, { full: true });
+    expect([result.u.rowCount, result.u.colCount]).toEqual([
+      rowCount,
+      rowCount,
+    ]);
+    expect(multiply(transpose(result.u), result.u).value).toBeCloseMatrix(
+      getIdentity(rowCount).value,
+      1e-12,
+    );
+    expect(reconstruct(result).value).toBeCloseMatrix(a.value, 1e-12);
+  });
+
+  it("throws an error when it does not converge", () => {
+    expect(() => svd(matrix, { maxIterations: 1 })).toThrow(ConvergenceError);
+    expect(() => svd(matrix, { maxIterations: 1 })).toThrow("1 iterations");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromRowMajor,
+  multiply,
+  toRowMajor2dArray,
+  transpose,
+  transposeInPlace,
+} from "@/f64Mat";
+import { ValidationError } from "@/errors";
+
+describe("Matrix.transpose", () => {
+  it("swaps rows and columns of a non-square matrix", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+    const result = transpose(matrix);
+    expect(result.rowCount).toBe(3);
+    expect(result.colCount).toBe(2);
+    expect(toRowMajor2dArray(result)).toEqual([
+      [1, 4],
+      [2, 5],
+      [3, 6],
+    ]);
+    expect(matrix.value).toEqual(new Float64Array([1, 4, 2, 5, 3, 6]));
+  });
+
+  it("returns the original matrix when applied twice", () => {
+    const matrix = fromRowMajor([[1, 2, 3, 4]]);
+    expect(transpose(transpose(matrix)).value).toEqual(matrix.value);
+  });
+
+  it("produces a symmetric A^T A", () => {
+    const a = fromRowMajor([
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ]);
+    const ata = multiply(transpose(a), a);
+    expect(toRowMajor2dArray(ata)).toEqual([
+      [35, 44],
+      [44, 56],
+    ]);
+  });
+});
+
+describe("Matrix.transposeInPlace", () => {
+  it("transposes a square matrix in place", () => {
+    const matrix = fromRowMajor([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+    expect(transposeInPlace(matrix)).toBe(matrix);
+    expect(toRowMajor2dArray(matrix)).toEqual([
+      [1, 4, 7],
+      [2, 5, 8],
+      [3, 6, 9],
+    ]);
+  });
+
+  it("throws an error for a non-square matrix", () => {
+    const matrix = fromRowMajor([[1, 2]]);
+    expect(() => transposeInPlace(matrix)).toThrow(ValidationError);
+  });
+});